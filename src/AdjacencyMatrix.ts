@@ -0,0 +1,127 @@
+import { EdgeWeight, Graph, NodeId } from "./Graph";
+
+// A dense adjacency matrix. `weights[i][j]` is the weight of the edge from
+// `nodes[i]` to `nodes[j]`, or null if there is no such edge.
+// Costs O(V²) memory, use a sparse matrix for large sparse graphs.
+export interface AdjacencyMatrix {
+  nodes: NodeId[];
+  weights: (EdgeWeight | null)[][];
+}
+
+// A sparse adjacency matrix in compressed sparse row format.
+// The edges of `nodes[i]` are stored at the indices `offsets[i]` up to
+// `offsets[i + 1]` of `targets`, which holds node indices, and `weights`.
+// Costs O(V + E) memory.
+export interface SparseAdjacencyMatrix {
+  nodes: NodeId[];
+  offsets: number[];
+  targets: number[];
+  weights: EdgeWeight[];
+}
+
+// Both matrix formats keep node ids as they are, so numeric and string ids
+// survive a JSON round trip. Matrices of undirected graphs are symmetric.
+// Multigraphs store the weight of the lightest parallel edge. Data payloads
+// are not stored.
+
+// Gets the dense adjacency matrix of the graph, with nodes in insertion
+// order.
+export function toAdjacencyMatrix<N, E>(graph: Graph<N, E>): AdjacencyMatrix {
+  const nodes = graph.nodes;
+  const indices = new Map(nodes.map((node, index) => [node, index]));
+  const weights = nodes.map((sourceNode) => {
+    const row: (EdgeWeight | null)[] = new Array(nodes.length).fill(null);
+    graph.adjacent(sourceNode).forEach((targetNode) => {
+      row[indices.get(targetNode) as number] = graph.getEdgeWeight(
+        sourceNode,
+        targetNode
+      );
+    });
+    return row;
+  });
+  return { nodes, weights };
+}
+
+// Adds the nodes and edges of the dense adjacency matrix to the given
+// graph, a new Graph by default, and returns the graph.
+// Throws if the matrix does not have one row and column per node.
+export function fromAdjacencyMatrix<N = unknown, E = unknown>(
+  matrix: AdjacencyMatrix,
+  graph: Graph<N, E> = new Graph<N, E>()
+): Graph<N, E> {
+  const { nodes, weights } = matrix;
+  if (
+    weights.length !== nodes.length ||
+    weights.some((row) => row.length !== nodes.length)
+  ) {
+    throw new Error("Adjacency matrix must have one row and column per node");
+  }
+
+  graph.batch(() => {
+    nodes.forEach((node) => graph.addNode(node));
+    weights.forEach((row, source) => {
+      row.forEach((weight, target) => {
+        if (weight !== null) {
+          graph.addEdge(nodes[source], nodes[target], weight);
+        }
+      });
+    });
+  });
+  return graph;
+}
+
+// Gets the sparse adjacency matrix of the graph, with nodes in insertion
+// order and the edges of every node in insertion order.
+export function toSparseAdjacencyMatrix<N, E>(
+  graph: Graph<N, E>
+): SparseAdjacencyMatrix {
+  const nodes = graph.nodes;
+  const indices = new Map(nodes.map((node, index) => [node, index]));
+  const matrix: SparseAdjacencyMatrix = {
+    nodes,
+    offsets: [0],
+    targets: [],
+    weights: [],
+  };
+  nodes.forEach((sourceNode) => {
+    graph.adjacent(sourceNode).forEach((targetNode) => {
+      matrix.targets.push(indices.get(targetNode) as number);
+      matrix.weights.push(graph.getEdgeWeight(sourceNode, targetNode));
+    });
+    matrix.offsets.push(matrix.targets.length);
+  });
+  return matrix;
+}
+
+// Adds the nodes and edges of the sparse adjacency matrix to the given
+// graph, a new Graph by default, and returns the graph.
+// Throws if the offsets or targets are out of range.
+export function fromSparseAdjacencyMatrix<N = unknown, E = unknown>(
+  matrix: SparseAdjacencyMatrix,
+  graph: Graph<N, E> = new Graph<N, E>()
+): Graph<N, E> {
+  const { nodes, offsets, targets, weights } = matrix;
+  const valid =
+    offsets.length === nodes.length + 1 &&
+    offsets[0] === 0 &&
+    offsets[nodes.length] === targets.length &&
+    weights.length === targets.length &&
+    offsets.every((offset, i) => i === 0 || offset >= offsets[i - 1]) &&
+    targets.every(
+      (target) =>
+        Number.isInteger(target) && target >= 0 && target < nodes.length
+    );
+  if (!valid) {
+    throw new Error("Invalid sparse adjacency matrix");
+  }
+
+  graph.batch(() => {
+    nodes.forEach((node) => graph.addNode(node));
+    nodes.forEach((sourceNode, source) => {
+      for (let i = offsets[source]; i < offsets[source + 1]; i++) {
+        graph.addEdge(sourceNode, nodes[targets[i]], weights[i]);
+      }
+    });
+  });
+  return graph;
+}
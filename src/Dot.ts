@@ -0,0 +1,124 @@
+import { EdgeMap } from "./EdgeMap";
+import type { Graph, NodeId } from "./Graph";
+
+// Options of `toDot`.
+export interface DotOptions {
+  // The name of the graph.
+  name?: string;
+  // Gets the label of a node. Nodes without a label show their id.
+  nodeLabel?: (node: NodeId) => string | undefined;
+  // Gets the rank of a node. Nodes of equal rank are placed side by side.
+  rank?: (node: NodeId) => number | undefined;
+  // Nodes to highlight, like a path. Edges between consecutive nodes are
+  // highlighted as well, so repeat the first node of a cycle at the end.
+  highlight?: readonly NodeId[];
+  // The color of highlighted nodes and edges. Defaults to red.
+  highlightColor?: string;
+  // Whether edges are labeled with their weights. Defaults to true.
+  edgeLabels?: boolean;
+}
+
+// Writes the graph in the DOT language of Graphviz, as a digraph, or as a
+// graph with every undirected edge written once for undirected graphs.
+// https://graphviz.org/doc/info/lang.html
+// Finite numeric node ids are written as numerals and other ids as strings,
+// so `parseDot` restores them. Multigraphs write every parallel edge.
+export function toDot<N, E>(graph: Graph<N, E>, options: DotOptions = {}) {
+  const undirected = graph.undirected;
+  const highlight = options.highlight ?? [];
+  const highlighted = new Set(highlight);
+  const highlightedEdges = new EdgeMap<NodeId, true>();
+  for (let i = 1; i < highlight.length; i++) {
+    highlightedEdges.set(highlight[i - 1], highlight[i], true);
+    if (undirected) {
+      highlightedEdges.set(highlight[i], highlight[i - 1], true);
+    }
+  }
+  const color = dotId(options.highlightColor ?? "red");
+
+  const name = options.name === undefined ? "" : dotId(options.name) + " ";
+  const lines = [`${undirected ? "graph" : "digraph"} ${name}{`];
+  const ranks = new Map<number, NodeId[]>();
+  graph.nodes.forEach((node) => {
+    const attributes: string[] = [];
+    const label = options.nodeLabel?.(node);
+    if (label !== undefined) {
+      attributes.push(`label=${dotId(label)}`);
+    }
+    if (highlighted.has(node)) {
+      attributes.push(`color=${color}`);
+    }
+    lines.push(`  ${dotId(node)}${dotAttributes(attributes)};`);
+
+    const rank = options.rank?.(node);
+    if (rank !== undefined) {
+      ranks.set(rank, [...(ranks.get(rank) ?? []), node]);
+    }
+  });
+  [...ranks.keys()]
+    .sort((a, b) => a - b)
+    .forEach((rank) => {
+      const nodes = (ranks.get(rank) as NodeId[]).map(dotId);
+      lines.push(`  { rank=same; ${nodes.join("; ")}; }`);
+    });
+
+  const edgeOp = undirected ? "--" : "->";
+  for (const link of graph.links()) {
+    const attributes: string[] = [];
+    if (options.edgeLabels ?? true) {
+      attributes.push(`label=${dotId(link.weight ?? 1)}`);
+    }
+    if (highlightedEdges.has(link.source, link.target)) {
+      attributes.push(`color=${color}`);
+    }
+    lines.push(
+      `  ${dotId(link.source)} ${edgeOp} ${dotId(link.target)}` +
+        `${dotAttributes(attributes)};`
+    );
+  }
+  lines.push("}");
+
+  return lines.join("\n") + "\n";
+}
+
+// Formats a node id or attribute value as a DOT ID. Finite numbers are
+// written as numerals, strings are quoted unless they are plain names.
+// Quotes and backslashes in quoted strings are escaped with a backslash.
+function dotId(id: NodeId) {
+  if (typeof id === "number" && Number.isFinite(id)) {
+    return numeral(id);
+  }
+  const text = String(id);
+  if (
+    typeof id === "string" &&
+    /^[A-Za-z_][A-Za-z0-9_]*$/.test(text) &&
+    !/^(node|edge|graph|digraph|subgraph|strict)$/i.test(text)
+  ) {
+    return text;
+  }
+  return `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+}
+
+// Writes the finite number in decimal notation, since numerals have no
+// exponents: 1e21 becomes 1000000000000000000000.
+function numeral(value: number) {
+  const [mantissa, exponent] = String(Math.abs(value)).split("e");
+  let text = mantissa;
+  if (exponent !== undefined) {
+    const [whole, fraction = ""] = mantissa.split(".");
+    const digits = whole + fraction;
+    const point = whole.length + Number(exponent);
+    if (point <= 0) {
+      text = "0." + "0".repeat(-point) + digits;
+    } else if (point >= digits.length) {
+      text = digits + "0".repeat(point - digits.length);
+    } else {
+      text = digits.slice(0, point) + "." + digits.slice(point);
+    }
+  }
+  return value < 0 ? "-" + text : text;
+}
+
+function dotAttributes(attributes: string[]) {
+  return attributes.length === 0 ? "" : ` [${attributes.join(", ")}]`;
+}
@@ -0,0 +1,397 @@
+import { EdgeWeight, Graph, NodeId, UndirectedGraph } from "./Graph";
+
+// The attributes of a DOT node or edge statement.
+export type DotAttributes = Record<string, string>;
+
+// Thrown when parsing malformed DOT.
+export class DotError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, DotError.prototype);
+  }
+}
+
+// Parses a graph in the DOT language of Graphviz.
+// https://graphviz.org/doc/info/lang.html
+// Returns a Graph for digraphs and an UndirectedGraph for graphs.
+// Supports node, edge and attribute statements, subgraphs, including as edge
+// operands, and comments. Ports and graph attributes are skipped.
+// Unquoted numerals become numeric node ids and all other ids strings, like
+// `toDot` writes them. The attributes of nodes and edges become their data
+// payloads. Edge weights are read from the weight attribute, or from
+// numeric labels as written by `toDot`.
+// Throws a DotError if the text is malformed.
+export function parseDot(text: string): Graph<DotAttributes, DotAttributes> {
+  return new DotParser(tokenize(text)).parse();
+}
+
+interface Token {
+  // Punctuation, an ID or the end of the text.
+  type: "punctuation" | "id" | "end";
+  value: string;
+  // Whether the ID was a quoted or HTML string, which are never keywords
+  // or numeric node ids.
+  quoted: boolean;
+  line: number;
+}
+
+// Default attributes set by attribute statements, scoped to subgraphs.
+interface Defaults {
+  node: DotAttributes;
+  edge: DotAttributes;
+}
+
+const NUMERAL = /^-?(\.[0-9]+|[0-9]+(\.[0-9]*)?)$/;
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const name = /[A-Za-z_\u0080-\uffff][A-Za-z0-9_\u0080-\uffff]*/y;
+  const numeral = /-?(\.[0-9]+|[0-9]+(\.[0-9]*)?)/y;
+  let line = 1;
+  let index = 0;
+
+  const push = (type: Token["type"], value: string, quoted = false) => {
+    tokens.push({ type, value, quoted, line });
+  };
+  const match = (pattern: RegExp) => {
+    pattern.lastIndex = index;
+    const found = pattern.exec(text);
+    if (found) {
+      index = pattern.lastIndex;
+    }
+    return found?.[0];
+  };
+
+  while (index < text.length) {
+    const char = text[index];
+    const lineStart = index === 0 || text[index - 1] === "\n";
+    if (char === "\n") {
+      line++;
+      index++;
+    } else if (/\s/.test(char)) {
+      index++;
+    } else if (text.startsWith("//", index) || (char === "#" && lineStart)) {
+      const end = text.indexOf("\n", index);
+      index = end < 0 ? text.length : end;
+    } else if (text.startsWith("/*", index)) {
+      const end = text.indexOf("*/", index + 2);
+      if (end < 0) {
+        throw new DotError(`Unterminated comment at line ${line}`);
+      }
+      line += text.slice(index, end).split("\n").length - 1;
+      index = end + 2;
+    } else if (text.startsWith("->", index) || text.startsWith("--", index)) {
+      push("punctuation", text.slice(index, index + 2));
+      index += 2;
+    } else if ("{}[];,=:".includes(char)) {
+      push("punctuation", char);
+      index++;
+    } else if (char === '"') {
+      // Strings escape quotes and backslashes, and can be split across
+      // lines with a trailing backslash.
+      const start = line;
+      let value = "";
+      index++;
+      while (text[index] !== '"') {
+        if (index >= text.length) {
+          throw new DotError(`Unterminated string at line ${start}`);
+        }
+        if (text[index] === "\\" && index + 1 < text.length) {
+          const next = text[index + 1];
+          if (next !== "\n") {
+            value += next === '"' || next === "\\" ? next : "\\" + next;
+          }
+          index += 2;
+        } else {
+          value += text[index++];
+        }
+        if (text[index - 1] === "\n") {
+          line++;
+        }
+      }
+      index++;
+      push("id", value, true);
+      tokens[tokens.length - 1].line = start;
+    } else if (char === "<") {
+      // HTML strings end at the matching angle bracket.
+      const start = index;
+      let depth = 0;
+      do {
+        if (index >= text.length) {
+          throw new DotError(`Unterminated HTML string at line ${line}`);
+        }
+        if (text[index] === "<") {
+          depth++;
+        } else if (text[index] === ">") {
+          depth--;
+        } else if (text[index] === "\n") {
+          line++;
+        }
+        index++;
+      } while (depth > 0);
+      push("id", text.slice(start + 1, index - 1), true);
+    } else {
+      const value = match(numeral) ?? match(name);
+      if (value === undefined) {
+        throw new DotError(`Unexpected character ${char} at line ${line}`);
+      }
+      push("id", value);
+    }
+  }
+  push("end", "");
+  return tokens;
+}
+
+class DotParser {
+  protected _tokens: Token[];
+
+  protected _index = 0;
+
+  protected _graph: Graph<DotAttributes, DotAttributes> = new Graph();
+
+  // The edge operator of the graph kind.
+  protected _edgeOp = "->";
+
+  constructor(tokens: Token[]) {
+    this._tokens = tokens;
+  }
+
+  parse() {
+    this.keyword("strict");
+    if (this.keyword("graph")) {
+      this._graph = new UndirectedGraph();
+      this._edgeOp = "--";
+    } else if (!this.keyword("digraph")) {
+      this.fail("graph or digraph");
+    }
+    if (this.peek().type === "id") {
+      this.next();
+    }
+    this.expect("{");
+    this.statements({ node: {}, edge: {} });
+    this.expect("}");
+    if (this.peek().type !== "end") {
+      this.fail("end of input");
+    }
+    return this._graph;
+  }
+
+  // Parses statements up to the closing brace of the block and returns the
+  // nodes they mention.
+  protected statements(defaults: Defaults): NodeId[] {
+    const nodes: NodeId[] = [];
+    while (!this.at("}") && this.peek().type !== "end") {
+      this.statement(defaults, nodes);
+      if (!this.accept(";")) {
+        this.accept(",");
+      }
+    }
+    return nodes;
+  }
+
+  protected statement(defaults: Defaults, nodes: NodeId[]) {
+    const token = this.peek();
+    const keyword = token.quoted ? "" : token.value.toLowerCase();
+    if (
+      (keyword === "graph" || keyword === "node" || keyword === "edge") &&
+      this.peek(1).value === "["
+    ) {
+      this.next();
+      const attributes = this.attributes();
+      if (keyword !== "graph") {
+        Object.assign(defaults[keyword], attributes);
+      }
+      return;
+    }
+    if (
+      token.type === "id" &&
+      keyword !== "subgraph" &&
+      this.peek(1).value === "="
+    ) {
+      // A graph attribute.
+      this.next();
+      this.next();
+      this.id();
+      return;
+    }
+
+    let operand = this.operand(defaults);
+    nodes.push(...operand.nodes);
+    if (!this.at("->") && !this.at("--")) {
+      if (operand.node !== undefined) {
+        this.addNode(operand.node, defaults, this.attributes());
+      }
+      return;
+    }
+
+    const edges: [NodeId[], NodeId[]][] = [];
+    while (this.at("->") || this.at("--")) {
+      const op = this.next();
+      if (op.value !== this._edgeOp) {
+        throw new DotError(
+          `Unexpected edge operator ${op.value} at line ${op.line}`
+        );
+      }
+      const target = this.operand(defaults);
+      nodes.push(...target.nodes);
+      edges.push([operand.nodes, target.nodes]);
+      operand = target;
+    }
+    const attributes = { ...defaults.edge, ...this.attributes() };
+    edges.forEach(([sources, targets]) => {
+      sources.forEach((source) => {
+        targets.forEach((target) => {
+          this.addEdge(source, target, attributes);
+        });
+      });
+    });
+  }
+
+  // Parses a node id or a subgraph.
+  protected operand(defaults: Defaults): { node?: NodeId; nodes: NodeId[] } {
+    if (this.keyword("subgraph")) {
+      if (this.peek().type === "id") {
+        this.next();
+      }
+    }
+    if (this.accept("{")) {
+      const nodes = this.statements({
+        node: { ...defaults.node },
+        edge: { ...defaults.edge },
+      });
+      this.expect("}");
+      return { nodes };
+    }
+
+    const node = this.nodeId();
+    // Ports are skipped: node:port or node:port:compass_pt.
+    while (this.accept(":")) {
+      this.id();
+    }
+    this.addNode(node, defaults, {});
+    return { node, nodes: [node] };
+  }
+
+  // Parses optional attribute lists: [a=b, c=d][e=f]
+  protected attributes(): DotAttributes {
+    const attributes: DotAttributes = {};
+    while (this.accept("[")) {
+      while (!this.accept("]")) {
+        const key = this.id();
+        this.expect("=");
+        attributes[key] = this.id();
+        if (!this.accept(",")) {
+          this.accept(";");
+        }
+      }
+    }
+    return attributes;
+  }
+
+  // Adds the node with the default node attributes if it is new, and
+  // merges the given attributes into its data.
+  protected addNode(
+    node: NodeId,
+    defaults: Defaults,
+    attributes: DotAttributes
+  ) {
+    const exists = this._graph.edges.has(node);
+    if (exists && Object.keys(attributes).length === 0) {
+      return;
+    }
+    const existing = exists ? this._graph.getNodeData(node) : defaults.node;
+    const data = { ...existing, ...attributes };
+    this._graph.addNode(node, Object.keys(data).length > 0 ? data : undefined);
+  }
+
+  protected addEdge(
+    sourceNode: NodeId,
+    targetNode: NodeId,
+    attributes: DotAttributes
+  ) {
+    const data = { ...attributes };
+    let weight: EdgeWeight | undefined;
+    if ("weight" in data) {
+      weight = Number(data.weight);
+      if (Number.isNaN(weight) || data.weight.trim() === "") {
+        throw new DotError(`Invalid edge weight: ${data.weight}`);
+      }
+      delete data.weight;
+    } else if (NUMERAL.test(data.label ?? "")) {
+      weight = Number(data.label);
+      delete data.label;
+    }
+    this._graph.addEdge(
+      sourceNode,
+      targetNode,
+      weight,
+      Object.keys(data).length > 0 ? data : undefined
+    );
+  }
+
+  protected nodeId(): NodeId {
+    const token = this.peek();
+    const value = this.id();
+    return !token.quoted && NUMERAL.test(value) ? Number(value) : value;
+  }
+
+  protected id() {
+    const token = this.peek();
+    if (token.type !== "id") {
+      this.fail("an ID");
+    }
+    this.next();
+    return token.value;
+  }
+
+  protected peek(offset = 0) {
+    return this._tokens[
+      Math.min(this._index + offset, this._tokens.length - 1)
+    ];
+  }
+
+  protected next() {
+    return this._tokens[this._index++];
+  }
+
+  protected at(punctuation: string) {
+    const token = this.peek();
+    return token.type === "punctuation" && token.value === punctuation;
+  }
+
+  protected accept(punctuation: string) {
+    if (this.at(punctuation)) {
+      this.next();
+      return true;
+    }
+    return false;
+  }
+
+  // Consumes the keyword if it is next. Keywords are case-insensitive.
+  protected keyword(keyword: string) {
+    const token = this.peek();
+    if (
+      token.type === "id" &&
+      !token.quoted &&
+      token.value.toLowerCase() === keyword
+    ) {
+      this.next();
+      return true;
+    }
+    return false;
+  }
+
+  protected expect(punctuation: string) {
+    if (!this.accept(punctuation)) {
+      this.fail(punctuation);
+    }
+  }
+
+  protected fail(expected: string): never {
+    const token = this.peek();
+    const found = token.type === "end" ? "end of input" : token.value;
+    throw new DotError(
+      `Expected ${expected} at line ${token.line}, found: ${found}`
+    );
+  }
+}
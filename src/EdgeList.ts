@@ -0,0 +1,305 @@
+import { EdgeWeight, Graph, NodeId } from "./Graph";
+
+// Edge lists with one edge per line: source, target and an optional weight,
+// separated by tabs (TSV) or commas (CSV). Lines with a single field add a
+// node, so nodes without edges survive a round trip. Empty lines and lines
+// starting with # are skipped. Data payloads are not written.
+// Node ids are numbers if they are written as unquoted JSON numbers, and
+// strings otherwise. Fields are quoted like in CSV, with "" for a quote, so
+// string ids that look like numbers are written as "1".
+
+export interface EdgeListWriteOptions {
+  // The field delimiter. Defaults to a tab.
+  delimiter?: string;
+  // Whether to write a header line. Defaults to false.
+  header?: boolean;
+  // Whether to write a weight column. Defaults to true.
+  weights?: boolean;
+}
+
+export interface EdgeListReadOptions<N, E> {
+  // The field delimiter. Defaults to a tab.
+  delimiter?: string;
+  // Whether the first line is a header. Defaults to false.
+  header?: boolean;
+  // The graph to add nodes and edges to, like an UndirectedGraph or a
+  // MultiGraph. Defaults to a new Graph.
+  graph?: Graph<N, E>;
+}
+
+// Thrown when reading malformed edge lists.
+// The line of the offending record is available as `line`.
+export class EdgeListError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(`${message} at line ${line}`);
+    this.line = line;
+    Object.setPrototypeOf(this, EdgeListError.prototype);
+  }
+}
+
+// Writes the graph as an edge list.
+// Undirected edges are written once. Multigraphs write every parallel edge.
+export function toEdgeList<N, E>(
+  graph: Graph<N, E>,
+  options: EdgeListWriteOptions = {}
+): string {
+  let text = "";
+  for (const line of edgeListLines(graph, options)) {
+    text += line + "\n";
+  }
+  return text;
+}
+
+// Generates the lines of the edge list, without line breaks, so large
+// graphs can be written to a stream line by line.
+// Nodes without edges are written after all edges.
+export function* edgeListLines<N, E>(
+  graph: Graph<N, E>,
+  options: EdgeListWriteOptions = {}
+): IterableIterator<string> {
+  const delimiter = options.delimiter ?? "\t";
+  const weights = options.weights ?? true;
+
+  if (options.header) {
+    yield ["source", "target", ...(weights ? ["weight"] : [])].join(delimiter);
+  }
+
+  for (const link of graph.links()) {
+    const fields = [
+      formatField(link.source, delimiter),
+      formatField(link.target, delimiter),
+    ];
+    if (weights) {
+      fields.push(String(link.weight ?? 1));
+    }
+    yield fields.join(delimiter);
+  }
+
+  for (const [node, targets] of graph.edges) {
+    if (targets.length === 0 && graph.inbound(node).length === 0) {
+      yield formatField(node, delimiter);
+    }
+  }
+}
+
+// Reads an edge list.
+// Throws an EdgeListError if the edge list is malformed.
+export function parseEdgeList<N = unknown, E = unknown>(
+  text: string,
+  options: EdgeListReadOptions<N, E> = {}
+): Graph<N, E> {
+  return new EdgeListReader(options).write(text).end();
+}
+
+// Builds a graph from an edge list that is read line by line or in chunks,
+// so large edge lists never have to be held in memory at once.
+// Records with quoted line breaks may span several lines.
+//
+//   const reader = new EdgeListReader({ delimiter: "," });
+//   for await (const line of readline.createInterface({ input })) {
+//     reader.readLine(line);
+//   }
+//   const graph = reader.end();
+export class EdgeListReader<N = unknown, E = unknown> {
+  protected _graph: Graph<N, E>;
+
+  protected _delimiter: string;
+
+  // Whether the header line still has to be skipped.
+  protected _header: boolean;
+
+  // The number of lines read.
+  protected _line = 0;
+
+  // The line on which the current record started.
+  protected _recordLine = 0;
+
+  // The lines of a record with an unterminated quoted field.
+  protected _pending: string | undefined;
+
+  // Text after the last line break of the written chunks.
+  protected _buffer = "";
+
+  constructor(options: EdgeListReadOptions<N, E> = {}) {
+    this._graph = options.graph ?? new Graph<N, E>();
+    this._delimiter = options.delimiter ?? "\t";
+    this._header = options.header ?? false;
+  }
+
+  // Gets the graph built so far.
+  get graph() {
+    return this._graph;
+  }
+
+  // Reads a chunk of text, which may end in the middle of a line.
+  write(chunk: string) {
+    const lines = (this._buffer + chunk).split("\n");
+    this._buffer = lines.pop() as string;
+    lines.forEach((line) => this.readLine(line));
+    return this;
+  }
+
+  // Reads a single line, without its line break.
+  readLine(line: string) {
+    this._line++;
+    if (line.endsWith("\r")) {
+      line = line.slice(0, -1);
+    }
+
+    if (this._pending === undefined) {
+      if (line.trim() === "" || line.startsWith("#")) {
+        return this;
+      }
+      this._recordLine = this._line;
+    } else {
+      line = this._pending + "\n" + line;
+    }
+
+    const fields = splitFields(line, this._delimiter, this._recordLine);
+    if (!fields) {
+      this._pending = line;
+      return this;
+    }
+    this._pending = undefined;
+
+    if (this._header) {
+      this._header = false;
+      return this;
+    }
+    if (fields.length > 3) {
+      throw new EdgeListError(
+        `Expected at most 3 fields, found ${fields.length}`,
+        this._recordLine
+      );
+    }
+
+    const source = this.nodeId(fields[0]);
+    if (fields.length === 1) {
+      this._graph.addNode(source);
+      return this;
+    }
+    const target = this.nodeId(fields[1]);
+    this._graph.addEdge(source, target, this.weight(fields[2]));
+    return this;
+  }
+
+  // Reads the text after the last line break and returns the graph.
+  // Throws an EdgeListError if a quoted field is not terminated.
+  end() {
+    if (this._buffer !== "") {
+      const buffer = this._buffer;
+      this._buffer = "";
+      this.readLine(buffer);
+    }
+    if (this._pending !== undefined) {
+      throw new EdgeListError("Unterminated quoted field", this._recordLine);
+    }
+    return this._graph;
+  }
+
+  protected nodeId(field: Field): NodeId {
+    if (field.quoted) {
+      return field.value;
+    }
+    if (field.value === "") {
+      throw new EdgeListError("Missing node id", this._recordLine);
+    }
+    return NUMBER.test(field.value) ? Number(field.value) : field.value;
+  }
+
+  protected weight(field: Field | undefined): EdgeWeight | undefined {
+    if (!field || (!field.quoted && field.value === "")) {
+      return undefined;
+    }
+    const weight = Number(field.value);
+    if (field.value.trim() === "" || Number.isNaN(weight)) {
+      throw new EdgeListError(
+        `Invalid edge weight: ${field.value}`,
+        this._recordLine
+      );
+    }
+    return weight;
+  }
+}
+
+interface Field {
+  value: string;
+  quoted: boolean;
+}
+
+// JSON numbers.
+const NUMBER = /^-?(0|[1-9][0-9]*)(\.[0-9]+)?([eE][+-]?[0-9]+)?$/;
+
+// Formats a node id as a field, quoting strings that would be read as
+// numbers, comments or several fields.
+function formatField(id: NodeId, delimiter: string) {
+  if (typeof id === "number") {
+    return String(id);
+  }
+  if (
+    id === "" ||
+    id.trim() !== id ||
+    id.startsWith("#") ||
+    NUMBER.test(id) ||
+    /["\r\n]/.test(id) ||
+    id.includes(delimiter)
+  ) {
+    return `"${id.replace(/"/g, '""')}"`;
+  }
+  return id;
+}
+
+// Splits a record into fields. Unquoted fields are trimmed.
+// Returns undefined if a quoted field continues on the next line.
+function splitFields(
+  line: string,
+  delimiter: string,
+  lineNumber: number
+): Field[] | undefined {
+  const fields: Field[] = [];
+  let index = 0;
+  for (;;) {
+    while (line[index] === " " && delimiter !== " ") {
+      index++;
+    }
+    if (line[index] === '"') {
+      let value = "";
+      let start = index + 1;
+      for (;;) {
+        const quote = line.indexOf('"', start);
+        if (quote < 0) {
+          return undefined;
+        }
+        value += line.slice(start, quote);
+        if (line[quote + 1] !== '"') {
+          index = quote + 1;
+          break;
+        }
+        value += '"';
+        start = quote + 2;
+      }
+      while (line[index] === " " && delimiter !== " ") {
+        index++;
+      }
+      if (index < line.length && !line.startsWith(delimiter, index)) {
+        throw new EdgeListError(
+          "Unexpected text after quoted field",
+          lineNumber
+        );
+      }
+      fields.push({ value, quoted: true });
+    } else {
+      const end = line.indexOf(delimiter, index);
+      const value = line.slice(index, end < 0 ? line.length : end);
+      fields.push({ value: value.trim(), quoted: false });
+      index = end < 0 ? line.length : end;
+    }
+
+    if (index >= line.length) {
+      return fields;
+    }
+    index += delimiter.length;
+  }
+}
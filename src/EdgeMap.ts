@@ -0,0 +1,82 @@
+// A map keyed by ordered pairs of nodes, i.e. by directed edges.
+// Keys are compared by their actual values rather than by a string encoding,
+// so the number 1 and the string "1" are different nodes and node ids may
+// contain any character. Operations cost O(1) on average.
+export class EdgeMap<K, V> {
+  // The values, grouped by source node.
+  // Keys are source nodes.
+  // Values are maps from target nodes to values.
+  protected _rows: Map<K, Map<K, V>> = new Map();
+
+  // The number of stored edges.
+  protected _size = 0;
+
+  // Gets the number of stored edges.
+  get size() {
+    return this._size;
+  }
+
+  // Returns true if a value is stored for the edge from node u to node v.
+  has(sourceNode: K, targetNode: K) {
+    return this._rows.get(sourceNode)?.has(targetNode) ?? false;
+  }
+
+  // Gets the value stored for the edge from node u to node v.
+  // Returns undefined if no value is stored.
+  get(sourceNode: K, targetNode: K): V | undefined {
+    return this._rows.get(sourceNode)?.get(targetNode);
+  }
+
+  // Stores a value for the edge from node u to node v.
+  set(sourceNode: K, targetNode: K, value: V) {
+    let row = this._rows.get(sourceNode);
+    if (!row) {
+      row = new Map();
+      this._rows.set(sourceNode, row);
+    }
+    if (!row.has(targetNode)) {
+      this._size++;
+    }
+    row.set(targetNode, value);
+    return this;
+  }
+
+  // Deletes the value stored for the edge from node u to node v.
+  // Returns false if no value was stored.
+  delete(sourceNode: K, targetNode: K): boolean {
+    const row = this._rows.get(sourceNode);
+    if (!row?.delete(targetNode)) {
+      return false;
+    }
+    if (row.size === 0) {
+      this._rows.delete(sourceNode);
+    }
+    this._size--;
+    return true;
+  }
+
+  // Deletes the values stored for all edges leaving the given node.
+  deleteSource(sourceNode: K) {
+    const row = this._rows.get(sourceNode);
+    if (row) {
+      this._size -= row.size;
+      this._rows.delete(sourceNode);
+    }
+  }
+
+  // Deletes all values.
+  clear() {
+    this._rows.clear();
+    this._size = 0;
+  }
+
+  // Iterates over the stored edges as [source, target, value] triples,
+  // grouped by source node in the order they were first stored.
+  *entries(): IterableIterator<[K, K, V]> {
+    for (const [sourceNode, row] of this._rows) {
+      for (const [targetNode, value] of row) {
+        yield [sourceNode, targetNode, value];
+      }
+    }
+  }
+}
@@ -0,0 +1,50 @@
+export type Listener<T> = (event: T) => void;
+
+// A typed synchronous event emitter.
+// `Events` maps event types to the type of the event objects passed to
+// their listeners. Listeners are called in subscription order.
+export class EventEmitter<Events> {
+  // The listeners of each event type.
+  protected _listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  // Subscribes the listener to events of the given type.
+  // Returns a function that unsubscribes it again.
+  on<K extends keyof Events>(type: K, listener: Listener<Events[K]>) {
+    let listeners = this._listeners[type];
+    if (!listeners) {
+      listeners = new Set();
+      this._listeners[type] = listeners;
+    }
+    listeners.add(listener);
+    return () => {
+      this.off(type, listener);
+    };
+  }
+
+  // Unsubscribes the listener from events of the given type.
+  // Does nothing if the listener was not subscribed.
+  off<K extends keyof Events>(type: K, listener: Listener<Events[K]>) {
+    this._listeners[type]?.delete(listener);
+    return this;
+  }
+
+  // Returns true if any listener is subscribed to events of the given type,
+  // or to any events if no type is given.
+  hasListeners(type?: keyof Events): boolean {
+    if (type === undefined) {
+      return Object.keys(this._listeners).some((key) =>
+        this.hasListeners(key as keyof Events)
+      );
+    }
+    return (this._listeners[type]?.size ?? 0) > 0;
+  }
+
+  // Calls the listeners of the given event type with the event.
+  // Listeners added or removed by a listener take effect with the next event.
+  emit<K extends keyof Events>(type: K, event: Events[K]) {
+    const listeners = this._listeners[type];
+    if (listeners) {
+      [...listeners].forEach((listener) => listener(event));
+    }
+  }
+}
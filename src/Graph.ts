@@ -1,39 +1,309 @@
+import { DotOptions, toDot } from "./Dot";
+import { EdgeMap } from "./EdgeMap";
+import { EventEmitter, Listener } from "./EventEmitter";
+import { History } from "./History";
+import { PriorityQueue } from "./PriorityQueue";
+import { UnionFind } from "./UnionFind";
+
 export type NodeId = string | number;
 export type EdgeWeight = number;
-export type EncodedEdge = string;
+export type EdgeId = string | number;
+
+// A list of nodes along a path, with the total path weight attached.
+export type Path = NodeId[] & { weight?: EdgeWeight };
+
+// The result of a single-source shortest path run.
+export interface ShortestPaths {
+  source: NodeId;
+  // Shortest path weights from the source, Infinity for unreachable nodes.
+  distances: Map<NodeId, EdgeWeight>;
+  // The predecessor of each reachable node on its shortest path.
+  predecessors: Map<NodeId, NodeId>;
+  // Assembles the shortest path from the source to the given node.
+  pathTo(targetNode: NodeId): Path;
+}
+
+// The result of an all-pairs shortest path run.
+export interface AllPairsShortestPaths {
+  // The nodes of the graph, in the row and column order of `toMatrix`.
+  nodes: NodeId[];
+  // The algorithm that was used.
+  algorithm: AllPairsAlgorithm;
+  // Gets the shortest path weight between two nodes, Infinity if unreachable.
+  distance(sourceNode: NodeId, targetNode: NodeId): EdgeWeight;
+  // Gets the node following the source node on the shortest path to the
+  // target node. Returns undefined if the target node is unreachable.
+  nextHop(sourceNode: NodeId, targetNode: NodeId): NodeId | undefined;
+  // Assembles the shortest path between two nodes.
+  path(sourceNode: NodeId, targetNode: NodeId): Path;
+  // Exports the distances as a matrix, indexed like `nodes`.
+  toMatrix(): EdgeWeight[][];
+}
+
+// The result of a minimum spanning forest run.
+export interface SpanningForest<N, E> {
+  // A graph with all nodes and the edges of the forest.
+  graph: UndirectedGraph<N, E>;
+  // The total weight of the forest edges.
+  weight: EdgeWeight;
+}
+
+// The result of a maximum flow run.
+export interface MaxFlow {
+  // The total flow from the source node to the sink node.
+  value: number;
+  // The flow assigned to every edge of the graph.
+  flows: { source: NodeId; target: NodeId; flow: number }[];
+  // The nodes on the source side of a minimum cut.
+  sourceSide: NodeId[];
+  // The nodes on the sink side of a minimum cut.
+  sinkSide: NodeId[];
+  // The edges from the source side to the sink side of the minimum cut.
+  // Their weights add up to the flow value.
+  cutEdges: { source: NodeId; target: NodeId; weight: EdgeWeight }[];
+}
+
+// The schedule of a node in a critical path analysis, where edge weights
+// are durations between the nodes.
+export interface Schedule {
+  // The earliest time the node can be reached.
+  earliestStart: number;
+  // The latest time the node can be reached without delaying the end.
+  latestStart: number;
+  // The difference between latest and earliest start. Zero on the
+  // critical path.
+  slack: number;
+}
+
+// The result of a critical path analysis.
+export interface CriticalPath {
+  // A longest path of the graph, with its weight attached.
+  path: Path;
+  // The total weight of the path, i.e. the earliest end of the project.
+  weight: EdgeWeight;
+  // The schedule of every node.
+  schedule: Map<NodeId, Schedule>;
+}
+
+// A node reached by a traversal.
+export interface TraversalStep {
+  node: NodeId;
+  // The number of edges between the start node and this node along the
+  // traversal tree. BFS depths are shortest hop counts.
+  depth: number;
+  // The node this node was reached from, undefined for start nodes.
+  parent?: NodeId;
+}
+
+// Callbacks invoked by traversals while they run.
+export interface TraversalVisitor {
+  // Called when a node is reached for the first time.
+  discover?: (step: TraversalStep) => void;
+  // Called when all edges of a node have been followed.
+  finish?: (step: TraversalStep) => void;
+  // Called for edges leading to a node that was not reached before.
+  treeEdge?: (sourceNode: NodeId, targetNode: NodeId) => void;
+  // Called for edges leading back to a node that is still being visited,
+  // i.e. edges that close a cycle. Only depth-first traversals report them.
+  backEdge?: (sourceNode: NodeId, targetNode: NodeId) => void;
+  // Called for all other edges leading to a node that was reached before.
+  crossEdge?: (sourceNode: NodeId, targetNode: NodeId) => void;
+}
 
-export interface Serialized {
-  nodes: { id: NodeId }[];
-  links: { source: NodeId; target: NodeId; weight?: EdgeWeight }[];
+export interface TraversalOptions {
+  visitor?: TraversalVisitor;
+  // Nodes at this depth are reached, but their edges are not followed.
+  depthLimit?: number;
 }
 
-class CycleError extends Error {
-  constructor(message: string) {
-    super(message);
+export interface DepthFirstOptions extends TraversalOptions {
+  // Whether nodes are yielded when discovered or when finished.
+  order?: "pre" | "post";
+}
+
+export type AllPairsAlgorithm = "floyd-warshall" | "johnson";
+
+// Options of the internal Dijkstra search.
+interface DijkstraOptions {
+  // Stop once this node is settled.
+  targetNode?: NodeId;
+  // Edge weight function, defaults to `getEdgeWeight`.
+  weight?: (sourceNode: NodeId, targetNode: NodeId) => EdgeWeight;
+  // Estimate of the remaining path weight to the target node, turns the
+  // search into A*.
+  heuristic?: Heuristic;
+}
+
+// Estimates the weight of the shortest path from the given node to the
+// target of an A* search. Must never overestimate to guarantee shortest paths.
+export type Heuristic = (node: NodeId) => EdgeWeight;
+
+export interface Serialized<N = unknown, E = unknown> {
+  nodes: { id: NodeId; data?: N }[];
+  links: {
+    source: NodeId;
+    target: NodeId;
+    weight?: EdgeWeight;
+    data?: E;
+    // The id of the edge, only used by multigraphs.
+    id?: EdgeId;
+  }[];
+}
+
+// A change of the graph. Removal and change events carry the previous
+// state, so every event can be reverted.
+// Edge events of multigraphs carry the id of the edge.
+export type GraphEvent<N = unknown, E = unknown> =
+  | { type: "nodeAdded"; node: NodeId }
+  | { type: "nodeRemoved"; node: NodeId; data?: N }
+  | { type: "nodeDataChanged"; node: NodeId; data?: N; previousData?: N }
+  | {
+      type: "edgeAdded";
+      source: NodeId;
+      target: NodeId;
+      weight: EdgeWeight;
+      id?: EdgeId;
+    }
+  | {
+      type: "edgeRemoved";
+      source: NodeId;
+      target: NodeId;
+      weight: EdgeWeight;
+      data?: E;
+      id?: EdgeId;
+    }
+  | {
+      type: "edgeWeightChanged";
+      source: NodeId;
+      target: NodeId;
+      weight: EdgeWeight;
+      previousWeight: EdgeWeight;
+      id?: EdgeId;
+    }
+  | {
+      type: "edgeDataChanged";
+      source: NodeId;
+      target: NodeId;
+      data?: E;
+      previousData?: E;
+      id?: EdgeId;
+    }
+  // Emitted after the removal events of all edges and nodes of the graph.
+  | { type: "reset" };
+
+// The events of a graph by type. Listeners of `change` receive all events
+// of a batch at once, see `Graph.batch`.
+export type GraphEvents<N = unknown, E = unknown> = {
+  [T in GraphEvent["type"]]: Extract<GraphEvent<N, E>, { type: T }>;
+} & { change: GraphEvent<N, E>[] };
+
+// An individual edge of a multigraph.
+export interface MultiEdge<E = unknown> {
+  id: EdgeId;
+  source: NodeId;
+  target: NodeId;
+  // Undefined if no weight was set, in which case the edge weighs 1.
+  weight?: EdgeWeight;
+  data?: E;
+}
+
+// Thrown by algorithms that require a directed acyclic graph.
+// The nodes of the offending cycle are available as `cycle`, in edge order.
+// The nodes that could not be ordered because of cycles are available as
+// `remaining`, if the algorithm tracks them.
+export class CycleError extends Error {
+  cycle: NodeId[];
+  remaining: NodeId[];
+
+  constructor(cycle: NodeId[], remaining: NodeId[] = cycle) {
+    super("Cycle found: " + [...cycle, cycle[0]].join(" -> "));
+    this.cycle = cycle;
+    this.remaining = remaining;
     Object.setPrototypeOf(this, CycleError.prototype);
   }
 }
 
+// Thrown by shortest path algorithms when a cycle of negative total weight
+// can be reached, which leaves shortest paths undefined.
+// The nodes of the offending cycle are available as `cycle`, in edge order.
+export class NegativeCycleError extends Error {
+  cycle: NodeId[];
+
+  constructor(cycle: NodeId[]) {
+    super("Negative cycle found: " + [...cycle, cycle[0]].join(" -> "));
+    this.cycle = cycle;
+    Object.setPrototypeOf(this, NegativeCycleError.prototype);
+  }
+}
+
 // A graph data structure with depth-first search and topological sort.
-export class Graph {
+// `N` is the type of the data payload attached to nodes,
+// `E` is the type of the data payload attached to edges.
+export class Graph<N = unknown, E = unknown> {
   // The adjacency list of the graph.
   // Keys are node ids.
   // Values are adjacent node id arrays.
   protected _edges: Map<NodeId, NodeId[]> = new Map();
 
+  // The reverse adjacency list of the graph, kept in sync with `_edges`.
+  // Keys are node ids.
+  // Values are the sets of node ids with an edge towards the key.
+  protected _reverseEdges: Map<NodeId, Set<NodeId>> = new Map();
+
   // The weights of edges.
-  // Keys are string encodings of edges.
+  // Keys are edges.
   // Values are weights (numbers).
-  protected _edgeWeights: Map<EncodedEdge, EdgeWeight> = new Map();
+  protected _edgeWeights: EdgeMap<NodeId, EdgeWeight> = new EdgeMap();
+
+  // The data payloads of nodes.
+  // Keys are node ids.
+  // Values are user supplied payloads.
+  protected _nodeData: Map<NodeId, N> = new Map();
+
+  // The data payloads of edges.
+  // Keys are edges.
+  // Values are user supplied payloads.
+  protected _edgeData: EdgeMap<NodeId, E> = new EdgeMap();
+
+  // The listeners of graph events.
+  protected _emitter: EventEmitter<GraphEvents<N, E>> = new EventEmitter();
+
+  // The number of batches currently running.
+  protected _batchDepth = 0;
+
+  // The events of the running batches, sent to `change` listeners when the
+  // outermost batch ends.
+  protected _pendingChanges: GraphEvent<N, E>[] = [];
 
-  constructor(serialized?: Serialized) {
+  // The events of the running batches outside of transactions, added to the
+  // undo history as a single step when the outermost batch ends.
+  protected _pendingHistory: GraphEvent<N, E>[] = [];
+
+  // The undo and redo stacks. Nothing is recorded until a limit is set.
+  protected _history: History<GraphEvent<N, E>[]> = new History(0);
+
+  // The events of the open transactions, innermost last.
+  protected _transactions: GraphEvent<N, E>[][] = [];
+
+  // True while changes are reverted or redone, which are not recorded.
+  protected _replaying = false;
+
+  constructor(serialized?: Serialized<N, E>) {
     // If a serialized graph was passed into the constructor, deserialize it.
     if (serialized) {
       this.deserialize(serialized);
     }
   }
 
-  get edges() {
+  // Whether edges are undirected, i.e. stored in both directions like in
+  // an UndirectedGraph.
+  get undirected(): boolean {
+    return false;
+  }
+
+  // Gets a read-only view of the adjacency list.
+  // Use ImmutableGraph for snapshots that can be kept across changes.
+  get edges(): ReadonlyMap<NodeId, readonly NodeId[]> {
     return this._edges;
   }
 
@@ -61,9 +331,7 @@ export class Graph {
     const nodeSet = new Set<NodeId>();
 
     this._edges.forEach((targetNodes, sourceNode) => {
-      const inboundNodes = this.inbound(sourceNode);
-
-      if (inboundNodes.length === 0) {
+      if (!this._reverseEdges.get(sourceNode)?.size) {
         nodeSet.add(sourceNode);
       }
     });
@@ -92,70 +360,243 @@ export class Graph {
   // Adds a node to the graph.
   // If node was already added, this function does nothing.
   // If node was not already added, this function sets up an empty adjacency list.
-  addNode(node: NodeId) {
-    this._edges.set(node, this.adjacent(node));
-    return this;
+  // If data is given, it replaces the data payload of the node.
+  addNode(node: NodeId, data?: N) {
+    return this.batch(() => {
+      if (!this._edges.has(node)) {
+        this._edges.set(node, []);
+        this.emit({ type: "nodeAdded", node });
+      }
+      if (data !== undefined) {
+        this.setNodeData(node, data);
+      }
+      return this;
+    });
   }
 
   // Removes a node from the graph.
   // Also removes incoming and outgoing edges.
   removeNode(node: NodeId) {
-    // Remove incoming edges.
-    this._edges.forEach((targetNodes, sourceNode) => {
-      targetNodes.forEach((targetNode) => {
-        if (targetNode === node) {
-          this.removeEdge(sourceNode, targetNode);
-        }
+    if (!this._edges.has(node)) {
+      return this;
+    }
+
+    return this.batch(() => {
+      // Remove incoming edges.
+      this.inbound(node).forEach((sourceNode) => {
+        this.removeEdge(sourceNode, node);
       });
-    });
 
-    // Remove outgoing edges (and signal that the node no longer exists).
-    this._edges.delete(node);
-    return this;
+      // Remove outgoing edges (and signal that the node no longer exists).
+      const removed = this.adjacent(node).map((targetNode) => {
+        this._reverseEdges.get(targetNode)?.delete(node);
+        return this.edgeRemovedEvent(node, targetNode);
+      });
+      const data = this._nodeData.get(node);
+      this._edgeWeights.deleteSource(node);
+      this._edgeData.deleteSource(node);
+      this._edges.delete(node);
+      this._reverseEdges.delete(node);
+      this._nodeData.delete(node);
+      removed.forEach((event) => this.emit(event));
+      this.emit({ type: "nodeRemoved", node, data });
+      return this;
+    });
   }
 
-  // Gets the adjacent node list for the given node.
+  // Gets a read-only view of the adjacent node list for the given node.
   // Returns an empty array for unknown nodes.
-  adjacent(node: NodeId): NodeId[] {
+  adjacent(node: NodeId): readonly NodeId[] {
     return this._edges.get(node) || [];
   }
 
-  // Computes a string encoding of an edge,
-  // for use as a key in an object.
-  protected encodeEdge(sourceNode: NodeId, targetNode: NodeId): EncodedEdge {
-    return sourceNode + "|" + targetNode;
-  }
-
   // Sets the weight of the given edge.
+  // Does nothing if the edge does not exist: weights are removed together
+  // with their edges, so a weight set before `addEdge` is not kept. Pass the
+  // weight to `addEdge` instead.
   setEdgeWeight(sourceNode: NodeId, targetNode: NodeId, weight: EdgeWeight) {
-    this._edgeWeights.set(this.encodeEdge(sourceNode, targetNode), weight);
+    if (this.hasEdge(sourceNode, targetNode)) {
+      const previousWeight = this.getEdgeWeight(sourceNode, targetNode);
+      this.storeEdgeWeight(sourceNode, targetNode, weight);
+      if (weight !== previousWeight) {
+        this.emit({
+          type: "edgeWeightChanged",
+          source: sourceNode,
+          target: targetNode,
+          weight,
+          previousWeight,
+        });
+      }
+    }
     return this;
   }
 
   // Gets the weight of the given edge.
   // Returns 1 if no weight was previously set.
   getEdgeWeight(sourceNode: NodeId, targetNode: NodeId): EdgeWeight {
-    return this._edgeWeights.get(this.encodeEdge(sourceNode, targetNode)) ?? 1;
+    return this._edgeWeights.get(sourceNode, targetNode) ?? 1;
+  }
+
+  // Sets the data payload of the given node.
+  // Does nothing if the node does not exist.
+  setNodeData(node: NodeId, data: N) {
+    return this.changeNodeData(node, data);
+  }
+
+  // Gets the data payload of the given node.
+  // Returns undefined if no data was previously set.
+  getNodeData(node: NodeId): N | undefined {
+    return this._nodeData.get(node);
+  }
+
+  // Sets the data payload of the given edge.
+  // Does nothing if the edge does not exist.
+  setEdgeData(sourceNode: NodeId, targetNode: NodeId, data: E) {
+    return this.changeEdgeData(sourceNode, targetNode, data);
+  }
+
+  // Gets the data payload of the given edge.
+  // Returns undefined if no data was previously set.
+  getEdgeData(sourceNode: NodeId, targetNode: NodeId): E | undefined {
+    return this._edgeData.get(sourceNode, targetNode);
   }
 
   // Adds an edge from node u to node v.
   // Implicitly adds the nodes if they were not already added.
-  addEdge(sourceNode: NodeId, targetNode: NodeId, weight?: EdgeWeight) {
-    this.addNode(sourceNode);
-    this.addNode(targetNode);
+  // Graphs hold at most one edge per ordered pair of nodes. Adding an
+  // existing edge again does not duplicate it, but replaces its weight and
+  // data payload if they are given. Use a MultiGraph for parallel edges.
+  addEdge(
+    sourceNode: NodeId,
+    targetNode: NodeId,
+    weight?: EdgeWeight,
+    data?: E
+  ) {
+    return this.batch(() => {
+      this.addNode(sourceNode);
+      this.addNode(targetNode);
 
-    this.adjacent(sourceNode).push(targetNode);
-    if (weight !== undefined) {
-      this.setEdgeWeight(sourceNode, targetNode, weight);
-    }
+      if (this.hasEdge(sourceNode, targetNode)) {
+        if (weight !== undefined) {
+          this.setEdgeWeight(sourceNode, targetNode, weight);
+        }
+      } else {
+        this.linkEdge(sourceNode, targetNode);
+        if (weight !== undefined) {
+          this.storeEdgeWeight(sourceNode, targetNode, weight);
+        }
+        this.emit({
+          type: "edgeAdded",
+          source: sourceNode,
+          target: targetNode,
+          weight: this.getEdgeWeight(sourceNode, targetNode),
+        });
+      }
+      if (data !== undefined) {
+        this.setEdgeData(sourceNode, targetNode, data);
+      }
 
-    return this;
+      return this;
+    });
   }
 
   // Removes the edge from node u to node v.
   // Does not remove the nodes.
   // Does nothing if the edge does not exist.
   removeEdge(sourceNode: NodeId, targetNode: NodeId) {
+    if (this.hasEdge(sourceNode, targetNode)) {
+      const event = this.edgeRemovedEvent(sourceNode, targetNode);
+      this.unlinkEdge(sourceNode, targetNode);
+      this.emit(event);
+    }
+
+    return this;
+  }
+
+  // Sets or, if data is undefined, deletes the data payload of the node.
+  protected changeNodeData(node: NodeId, data: N | undefined) {
+    const previousData = this._nodeData.get(node);
+    if (this._edges.has(node) && data !== previousData) {
+      if (data === undefined) {
+        this._nodeData.delete(node);
+      } else {
+        this._nodeData.set(node, data);
+      }
+      this.emit({ type: "nodeDataChanged", node, data, previousData });
+    }
+    return this;
+  }
+
+  // Sets or, if data is undefined, deletes the data payload of the edge.
+  protected changeEdgeData(
+    sourceNode: NodeId,
+    targetNode: NodeId,
+    data: E | undefined
+  ) {
+    const previousData = this._edgeData.get(sourceNode, targetNode);
+    if (this.hasEdge(sourceNode, targetNode) && data !== previousData) {
+      this.storeEdgeData(sourceNode, targetNode, data);
+      this.emit({
+        type: "edgeDataChanged",
+        source: sourceNode,
+        target: targetNode,
+        data,
+        previousData,
+      });
+    }
+    return this;
+  }
+
+  // Builds the event for removing the edge from node u to node v, before
+  // the edge is removed.
+  protected edgeRemovedEvent(
+    sourceNode: NodeId,
+    targetNode: NodeId
+  ): GraphEvent<N, E> {
+    return {
+      type: "edgeRemoved",
+      source: sourceNode,
+      target: targetNode,
+      weight: this.getEdgeWeight(sourceNode, targetNode),
+      data: this._edgeData.get(sourceNode, targetNode),
+    };
+  }
+
+  // Stores the weight of the edge from node u to node v.
+  // Does not check whether the edge exists or emit events.
+  protected storeEdgeWeight(
+    sourceNode: NodeId,
+    targetNode: NodeId,
+    weight: EdgeWeight
+  ) {
+    this._edgeWeights.set(sourceNode, targetNode, weight);
+  }
+
+  // Stores or, if data is undefined, deletes the data payload of the edge
+  // from node u to node v. Does not check whether the edge exists or emit
+  // events.
+  protected storeEdgeData(
+    sourceNode: NodeId,
+    targetNode: NodeId,
+    data: E | undefined
+  ) {
+    if (data === undefined) {
+      this._edgeData.delete(sourceNode, targetNode);
+    } else {
+      this._edgeData.set(sourceNode, targetNode, data);
+    }
+  }
+
+  // Records the edge from node u to node v in the adjacency lists.
+  // Does not check whether the edge already exists or emit events.
+  protected linkEdge(sourceNode: NodeId, targetNode: NodeId) {
+    (this._edges.get(sourceNode) as NodeId[]).push(targetNode);
+    this.addReverseEdge(sourceNode, targetNode);
+  }
+
+  // Deletes the edge from node u to node v from the adjacency lists,
+  // together with its weight and data payload. Does not emit events.
+  protected unlinkEdge(sourceNode: NodeId, targetNode: NodeId) {
     if (this._edges.get(sourceNode)) {
       this._edges.set(
         sourceNode,
@@ -164,34 +605,302 @@ export class Graph {
         })
       );
     }
+    this._reverseEdges.get(targetNode)?.delete(sourceNode);
+    this._edgeWeights.delete(sourceNode, targetNode);
+    this._edgeData.delete(sourceNode, targetNode);
+  }
+
+  // Records the edge from node u to node v in the reverse adjacency list.
+  protected addReverseEdge(sourceNode: NodeId, targetNode: NodeId) {
+    const sourceNodes = this._reverseEdges.get(targetNode);
+    if (sourceNodes) {
+      sourceNodes.add(sourceNode);
+    } else {
+      this._reverseEdges.set(targetNode, new Set([sourceNode]));
+    }
+  }
+
+  // Subscribes the listener to graph events of the given type.
+  // Returns a function that unsubscribes it again.
+  on<K extends keyof GraphEvents>(
+    type: K,
+    listener: Listener<GraphEvents<N, E>[K]>
+  ) {
+    return this._emitter.on(type, listener);
+  }
 
+  // Unsubscribes the listener from graph events of the given type.
+  off<K extends keyof GraphEvents>(
+    type: K,
+    listener: Listener<GraphEvents<N, E>[K]>
+  ) {
+    this._emitter.off(type, listener);
     return this;
   }
 
-  // Returns true if there is an edge from node u to node v.
-  hasEdge(sourceNode: NodeId, targetNode: NodeId) {
-    return this.adjacent(sourceNode).includes(targetNode);
+  // Runs the function and returns its result. Events are still emitted to
+  // their listeners right away, but `change` listeners receive all events
+  // at once when the outermost batch ends, even if the function throws.
+  // Mutating methods run in a batch, so each call is a single change, and
+  // a single step of the undo history.
+  batch<T>(fn: () => T): T {
+    this._batchDepth++;
+    try {
+      return fn();
+    } finally {
+      this._batchDepth--;
+      if (this._batchDepth === 0) {
+        this.flushChanges();
+      }
+    }
   }
 
-  // Computes the indegree for the given node.
-  // Not very efficient, costs O(E) where E = number of edges.
-  inbound(node: NodeId) {
-    const inboundNodes = new Set<NodeId>();
+  // Sets the maximum number of changes that can be undone.
+  // The history is disabled by default, as it keeps removed data alive.
+  setHistoryLimit(limit: number) {
+    this.flushChanges();
+    this._history.limit = limit;
+    return this;
+  }
 
-    this._edges.forEach((targetNodes, sourceNode) => {
-      targetNodes.forEach((targetNode) => {
-        if (targetNode === node) {
-          inboundNodes.add(sourceNode);
+  // Returns true if there is a change to undo.
+  get canUndo() {
+    return this._pendingHistory.length > 0 || this._history.canUndo;
+  }
+
+  // Returns true if there is an undone change to redo.
+  get canRedo() {
+    return this._history.canRedo;
+  }
+
+  // Reverts the latest change, i.e. the latest call of a mutating method,
+  // batch or committed transaction. Costs the size of the change.
+  // Returns false if there is nothing to undo.
+  // Restored nodes and edges are added at the end of the node and
+  // adjacency lists.
+  undo(): boolean {
+    this.assertNoTransaction();
+    this.flushChanges();
+    const changes = this._history.undo();
+    if (!changes) {
+      return false;
+    }
+    this.replay(changes, true);
+    return true;
+  }
+
+  // Applies the latest undone change again.
+  // Returns false if there is nothing to redo.
+  redo(): boolean {
+    this.assertNoTransaction();
+    this.flushChanges();
+    const changes = this._history.redo();
+    if (!changes) {
+      return false;
+    }
+    this.replay(changes, false);
+    return true;
+  }
+
+  // Discards the undo and redo stacks.
+  clearHistory() {
+    this.flushChanges();
+    this._history.clear();
+    return this;
+  }
+
+  // Starts recording changes, which are kept by `commit` or reverted by
+  // `rollback`. Transactions can be nested.
+  beginTransaction() {
+    this.flushChanges();
+    this._transactions.push([]);
+    return this;
+  }
+
+  // Returns true if a transaction is open.
+  get inTransaction() {
+    return this._transactions.length > 0;
+  }
+
+  // Ends the innermost transaction and keeps its changes. The changes of
+  // the outermost transaction become a single step of the undo history.
+  // Throws if no transaction is open.
+  commit() {
+    const changes = this.endTransaction();
+    const outer = this._transactions[this._transactions.length - 1];
+    if (outer) {
+      changes.forEach((event) => outer.push(event));
+    } else if (changes.length > 0) {
+      this._history.push(changes);
+    }
+    return this;
+  }
+
+  // Ends the innermost transaction and reverts its changes.
+  // Throws if no transaction is open.
+  rollback() {
+    this.replay(this.endTransaction(), true);
+    return this;
+  }
+
+  protected endTransaction(): GraphEvent<N, E>[] {
+    const changes = this._transactions.pop();
+    if (!changes) {
+      throw new Error("No transaction in progress");
+    }
+    return changes;
+  }
+
+  protected assertNoTransaction() {
+    if (this._transactions.length > 0) {
+      throw new Error("Cannot undo or redo during a transaction");
+    }
+  }
+
+  // Emits the event to its listeners and records it for `change` listeners,
+  // the open transaction or the undo history.
+  protected emit(event: GraphEvent<N, E>) {
+    // TypeScript cannot correlate the type of the event with its listeners.
+    this._emitter.emit(event.type, event as never);
+
+    if (!this._replaying) {
+      const transaction = this._transactions[this._transactions.length - 1];
+      if (transaction) {
+        transaction.push(event);
+      } else if (this._history.limit > 0) {
+        this._pendingHistory.push(event);
+      }
+    }
+    if (this._emitter.hasListeners("change")) {
+      this._pendingChanges.push(event);
+    }
+
+    if (this._batchDepth === 0) {
+      this.flushChanges();
+    }
+  }
+
+  // Sends the pending events to `change` listeners and to the undo history.
+  protected flushChanges() {
+    if (this._pendingHistory.length > 0) {
+      this._history.push(this._pendingHistory);
+      this._pendingHistory = [];
+    }
+    if (this._pendingChanges.length > 0) {
+      const changes = this._pendingChanges;
+      this._pendingChanges = [];
+      this._emitter.emit("change", changes);
+    }
+  }
+
+  // Reverts the events in reverse order, or applies them again in order,
+  // without recording them. Runs of removals of the same kind do not depend
+  // on each other, so they are reverted in their original order to keep the
+  // relative order of restored nodes and edges.
+  protected replay(changes: GraphEvent<N, E>[], revert: boolean) {
+    const replaying = this._replaying;
+    this._replaying = true;
+    try {
+      this.batch(() => {
+        if (revert) {
+          let end = changes.length;
+          while (end > 0) {
+            let start = end - 1;
+            const type = changes[start].type;
+            if (type === "nodeRemoved" || type === "edgeRemoved") {
+              while (start > 0 && changes[start - 1].type === type) {
+                start--;
+              }
+            }
+            for (let i = start; i < end; i++) {
+              this.revertEvent(changes[i]);
+            }
+            end = start;
+          }
+        } else {
+          changes.forEach((event) => this.applyEvent(event));
         }
       });
-    });
+    } finally {
+      this._replaying = replaying;
+    }
+  }
+
+  // Applies the change described by the event.
+  protected applyEvent(event: GraphEvent<N, E>) {
+    switch (event.type) {
+      case "nodeAdded":
+        this.addNode(event.node);
+        break;
+      case "nodeRemoved":
+        this.removeNode(event.node);
+        break;
+      case "nodeDataChanged":
+        this.changeNodeData(event.node, event.data);
+        break;
+      case "edgeAdded":
+        this.addEdge(event.source, event.target, event.weight);
+        break;
+      case "edgeRemoved":
+        this.removeEdge(event.source, event.target);
+        break;
+      case "edgeWeightChanged":
+        this.setEdgeWeight(event.source, event.target, event.weight);
+        break;
+      case "edgeDataChanged":
+        this.changeEdgeData(event.source, event.target, event.data);
+        break;
+      case "reset":
+        // The removal events before it already emptied the graph.
+        break;
+    }
+  }
+
+  // Reverts the change described by the event.
+  protected revertEvent(event: GraphEvent<N, E>) {
+    switch (event.type) {
+      case "nodeAdded":
+        this.removeNode(event.node);
+        break;
+      case "nodeRemoved":
+        this.addNode(event.node, event.data);
+        break;
+      case "nodeDataChanged":
+        this.changeNodeData(event.node, event.previousData);
+        break;
+      case "edgeAdded":
+        this.removeEdge(event.source, event.target);
+        break;
+      case "edgeRemoved":
+        this.addEdge(event.source, event.target, event.weight, event.data);
+        break;
+      case "edgeWeightChanged":
+        this.setEdgeWeight(event.source, event.target, event.previousWeight);
+        break;
+      case "edgeDataChanged":
+        this.changeEdgeData(event.source, event.target, event.previousData);
+        break;
+      case "reset":
+        break;
+    }
+  }
+
+  // Returns true if there is an edge from node u to node v.
+  // Looked up in the reverse adjacency list, costs O(1).
+  hasEdge(sourceNode: NodeId, targetNode: NodeId) {
+    return this._reverseEdges.get(targetNode)?.has(sourceNode) ?? false;
+  }
 
-    return [...inboundNodes.values()];
+  // Computes the indegree for the given node.
+  // Looked up in the reverse adjacency list, costs O(indegree).
+  inbound(node: NodeId) {
+    return [...(this._reverseEdges.get(node)?.values() ?? [])];
   }
 
-  // Computes the outdegree for the given node.
-  outbound(node: NodeId) {
-    return this._edges.get(node) ?? [];
+  // Gets a read-only view of the outgoing edges of the given node, whose
+  // length is its outdegree.
+  outbound(node: NodeId): readonly NodeId[] {
+    return this.adjacent(node);
   }
 
   // Depth First Search algorithm, inspired by
@@ -200,6 +909,8 @@ export class Graph {
   // include or exclude the source nodes from the result (true by default).
   // If `sourceNodes` is not specified, all nodes in the graph
   // are used as source nodes.
+  // Uses an explicit stack instead of recursion, so deep graphs cannot
+  // overflow the call stack.
   depthFirstSearch(
     sourceNodes?: NodeId[],
     includeSourceNodes = true,
@@ -209,20 +920,43 @@ export class Graph {
       sourceNodes = this.nodes;
     }
 
-    const visited: Record<NodeId, boolean> = {};
-    const visiting: Record<NodeId, boolean> = {};
+    const visited = new Set<NodeId>();
+    const visiting = new Set<NodeId>();
     const nodeList: NodeId[] = [];
 
-    const DFSVisit = (node: NodeId) => {
-      if (visiting[node] && errorOnCycle) {
-        throw new CycleError("Cycle found");
-      }
-      if (!visited[node]) {
-        visited[node] = true;
-        visiting[node] = true; // temporary flag while visiting
-        this.adjacent(node).forEach(DFSVisit);
-        visiting[node] = false;
-        nodeList.push(node);
+    // The nodes currently being visited, in visiting order, and the
+    // adjacent nodes that are left to visit for each of them.
+    const path: NodeId[] = [];
+    const stack: Iterator<NodeId>[] = [];
+
+    const enter = (node: NodeId) => {
+      visited.add(node);
+      visiting.add(node); // temporary flag while visiting
+      path.push(node);
+      stack.push(this.adjacent(node).values());
+    };
+
+    const DFSVisit = (root: NodeId) => {
+      if (visited.has(root)) return;
+      enter(root);
+
+      while (stack.length > 0) {
+        const next = stack[stack.length - 1].next();
+        if (next.done) {
+          stack.pop();
+          const node = path.pop() as NodeId;
+          visiting.delete(node);
+          nodeList.push(node);
+          continue;
+        }
+
+        const node = next.value;
+        if (visiting.has(node) && errorOnCycle) {
+          throw new CycleError(path.slice(path.lastIndexOf(node)));
+        }
+        if (!visited.has(node)) {
+          enter(node);
+        }
       }
     };
 
@@ -230,7 +964,7 @@ export class Graph {
       sourceNodes.forEach(DFSVisit);
     } else {
       sourceNodes.forEach((node) => {
-        visited[node] = true;
+        visited.add(node);
       });
       sourceNodes.forEach((node) => {
         this.adjacent(node).forEach(DFSVisit);
@@ -240,64 +974,290 @@ export class Graph {
     return nodeList;
   }
 
+  // Lazily traverses the graph in breadth-first order from the given start
+  // node(s), yielding every reached node with its depth and parent.
+  // Cormen et al. "Introduction to Algorithms" 3rd Ed. p. 594
+  *bfs(
+    start: NodeId | NodeId[],
+    options: TraversalOptions = {}
+  ): Generator<TraversalStep, void, undefined> {
+    const { visitor = {}, depthLimit = Infinity } = options;
+    const startNodes = this.traversalStart(start);
+
+    const discovered = new Set<NodeId>();
+    const queue: TraversalStep[] = [];
+    for (const node of startNodes) {
+      if (!discovered.has(node)) {
+        const step = { node, depth: 0 };
+        discovered.add(node);
+        visitor.discover?.(step);
+        queue.push(step);
+      }
+    }
+
+    for (let i = 0; i < queue.length; i++) {
+      const step = queue[i];
+      yield step;
+
+      if (step.depth < depthLimit) {
+        for (const v of this.adjacent(step.node)) {
+          if (discovered.has(v)) {
+            visitor.crossEdge?.(step.node, v);
+            continue;
+          }
+          discovered.add(v);
+          const child = { node: v, depth: step.depth + 1, parent: step.node };
+          visitor.treeEdge?.(step.node, v);
+          visitor.discover?.(child);
+          queue.push(child);
+        }
+      }
+      visitor.finish?.(step);
+    }
+  }
+
+  // Lazily traverses the graph in depth-first order from the given start
+  // node(s), yielding every reached node with its depth and parent, either
+  // when it is discovered (`order: "pre"`, the default) or finished
+  // (`order: "post"`). Uses an explicit stack, so deep graphs cannot
+  // overflow the call stack.
+  *dfs(
+    start: NodeId | NodeId[],
+    options: DepthFirstOptions = {}
+  ): Generator<TraversalStep, void, undefined> {
+    const { visitor = {}, depthLimit = Infinity, order = "pre" } = options;
+    const startNodes = this.traversalStart(start);
+
+    const discovered = new Set<NodeId>();
+    const finished = new Set<NodeId>();
+    const stack: { step: TraversalStep; neighbours: Iterator<NodeId> }[] = [];
+
+    for (const root of startNodes) {
+      if (discovered.has(root)) continue;
+
+      const rootStep = { node: root, depth: 0 };
+      discovered.add(root);
+      visitor.discover?.(rootStep);
+      if (order === "pre") yield rootStep;
+      stack.push({ step: rootStep, neighbours: this.adjacent(root).values() });
+
+      while (stack.length > 0) {
+        const { step, neighbours } = stack[stack.length - 1];
+        const next =
+          step.depth < depthLimit
+            ? neighbours.next()
+            : ({ done: true } as IteratorResult<NodeId>);
+
+        if (next.done) {
+          stack.pop();
+          finished.add(step.node);
+          visitor.finish?.(step);
+          if (order === "post") yield step;
+          continue;
+        }
+
+        const v = next.value;
+        if (!discovered.has(v)) {
+          discovered.add(v);
+          const child = { node: v, depth: step.depth + 1, parent: step.node };
+          visitor.treeEdge?.(step.node, v);
+          visitor.discover?.(child);
+          if (order === "pre") yield child;
+          stack.push({ step: child, neighbours: this.adjacent(v).values() });
+        } else if (!finished.has(v)) {
+          visitor.backEdge?.(step.node, v);
+        } else {
+          visitor.crossEdge?.(step.node, v);
+        }
+      }
+    }
+  }
+
+  // Normalizes the start node(s) of a traversal.
+  protected traversalStart(start: NodeId | NodeId[]) {
+    const startNodes = Array.isArray(start) ? start : [start];
+    startNodes.forEach((node) => {
+      if (!this._edges.has(node)) {
+        throw new Error("Start node is not in the graph");
+      }
+    });
+    return startNodes;
+  }
+
   // Returns true if the graph has one or more cycles and false otherwise
   hasCycle(): boolean {
+    return this.findCycle() !== null;
+  }
+
+  // Returns the nodes of a cycle in edge order, e.g. ["a", "b"] for the
+  // edges a -> b -> a, or null if the graph has no cycles.
+  findCycle(): NodeId[] | null {
     try {
       this.depthFirstSearch(undefined, true, true);
       // No error thrown -> no cycles
     } catch (error) {
       if (error instanceof CycleError) {
-        return true;
+        return error.cycle;
       }
 
       throw error;
     }
 
-    return false;
+    return null;
+  }
+
+  // Johnson's Elementary Circuits Algorithm.
+  // Johnson, "Finding All the Elementary Circuits of a Directed Graph" (1975).
+  // Returns every cycle without repeated nodes, in edge order and starting
+  // from its earliest added node. Costs O((V + E)(C + 1)) where C = number
+  // of cycles, which can grow exponentially, so `limit` caps the number of
+  // returned cycles.
+  findAllCycles(options: { limit?: number } = {}): NodeId[][] {
+    const { limit = Infinity } = options;
+    const cycles: NodeId[][] = [];
+    const nodes = this.nodes;
+
+    // Nodes that have not been used as a start node yet.
+    const remaining = new Set(nodes);
+
+    // Nodes adjacent in the given direction, among the remaining nodes.
+    const within = (neighbours: readonly NodeId[]) =>
+      neighbours.filter((node) => remaining.has(node));
+
+    for (const start of nodes) {
+      if (cycles.length >= limit) break;
+
+      // Restrict the search to the strongly connected component of the
+      // start node within the remaining nodes.
+      const ancestors = this.reachable(start, (node) =>
+        within(this.inbound(node))
+      );
+      const component = new Set(
+        [
+          ...this.reachable(start, (node) => within(this.adjacent(node))),
+        ].filter((node) => ancestors.has(node))
+      );
+      const neighbours = (node: NodeId) =>
+        [...new Set(this.adjacent(node))].filter((v) => component.has(v));
+
+      // Nodes that cannot currently lead back to the start node, and for
+      // each node the nodes to unblock once it gets unblocked.
+      const blocked = new Set<NodeId>([start]);
+      const blockedBy = new Map<NodeId, Set<NodeId>>();
+      const unblock = (node: NodeId) => {
+        const stack = [node];
+        while (stack.length > 0) {
+          const u = stack.pop() as NodeId;
+          if (blocked.delete(u)) {
+            stack.push(...(blockedBy.get(u) ?? []));
+            blockedBy.delete(u);
+          }
+        }
+      };
+
+      // The current path, the remaining neighbours of each of its nodes and
+      // whether a cycle was closed below each of its nodes.
+      const path: NodeId[] = [start];
+      const stack = [neighbours(start).values()];
+      const closed = [false];
+
+      while (stack.length > 0 && cycles.length < limit) {
+        const next = stack[stack.length - 1].next();
+        if (!next.done) {
+          const w = next.value;
+          if (w === start) {
+            cycles.push([...path]);
+            closed[closed.length - 1] = true;
+          } else if (!blocked.has(w)) {
+            path.push(w);
+            stack.push(neighbours(w).values());
+            closed.push(false);
+            blocked.add(w);
+          }
+          continue;
+        }
+
+        stack.pop();
+        const v = path.pop() as NodeId;
+        if (closed.pop()) {
+          if (closed.length > 0) {
+            closed[closed.length - 1] = true;
+          }
+          unblock(v);
+        } else {
+          neighbours(v).forEach((w) => {
+            const nodes = blockedBy.get(w) ?? new Set<NodeId>();
+            nodes.add(v);
+            blockedBy.set(w, nodes);
+          });
+        }
+      }
+
+      remaining.delete(start);
+    }
+
+    return cycles;
   }
 
   // Least Common Ancestors
   // Inspired by https://github.com/relaxedws/lca/blob/master/src/LowestCommonAncestor.php code
   // but uses depth search instead of breadth. Also uses some optimizations
+  // Both searches use an explicit stack instead of recursion.
   lowestCommonAncestors(node1: NodeId, node2: NodeId) {
-    const node1Ancestors: NodeId[] = [];
+    const node1Ancestors = new Set<NodeId>();
     const lcas: NodeId[] = [];
 
-    const CA1Visit = (
-      visited: Record<NodeId, boolean>,
-      node: NodeId
+    // Depth first search from `root`. `visit` is called for every newly
+    // reached node and returns whether to descend into its adjacent nodes,
+    // or null to stop the whole search.
+    const search = (
+      root: NodeId,
+      visit: (node: NodeId) => boolean | null
     ): boolean => {
-      if (!visited[node]) {
-        visited[node] = true;
-        node1Ancestors.push(node);
-        if (node == node2) {
-          lcas.push(node);
-          return false; // found - shortcut
-        }
-        return this.adjacent(node).every((node) => {
-          return CA1Visit(visited, node);
-        });
-      } else {
-        return true;
+      const visited = new Set<NodeId>([root]);
+      const descend = visit(root);
+      if (descend === null) return false;
+      const stack = descend ? [this.adjacent(root).values()] : [];
+
+      while (stack.length > 0) {
+        const next = stack[stack.length - 1].next();
+        if (next.done) {
+          stack.pop();
+          continue;
+        }
+        const node = next.value;
+        if (visited.has(node)) continue;
+        visited.add(node);
+        const descend = visit(node);
+        if (descend === null) return false;
+        if (descend) {
+          stack.push(this.adjacent(node).values());
+        }
       }
+
+      return true;
     };
 
-    const CA2Visit = (visited: Record<NodeId, boolean>, node: NodeId) => {
-      if (!visited[node]) {
-        visited[node] = true;
-        if (node1Ancestors.indexOf(node) >= 0) {
-          lcas.push(node);
-        } else if (lcas.length == 0) {
-          this.adjacent(node).forEach((node) => {
-            CA2Visit(visited, node);
-          });
-        }
+    const CA1Visit = (node: NodeId) => {
+      node1Ancestors.add(node);
+      if (node == node2) {
+        lcas.push(node);
+        return null; // found - shortcut
+      }
+      return true;
+    };
+
+    const CA2Visit = (node: NodeId) => {
+      if (node1Ancestors.has(node)) {
+        lcas.push(node);
+        return false;
       }
+      return lcas.length == 0;
     };
 
-    if (CA1Visit({}, node1)) {
+    if (search(node1, CA1Visit)) {
       // No shortcut worked
-      CA2Visit({}, node2);
+      search(node2, CA2Visit);
     }
 
     return lcas;
@@ -315,191 +1275,1436 @@ export class Graph {
     ).reverse();
   }
 
-  // Dijkstra's Shortest Path Algorithm.
-  // Cormen et al. "Introduction to Algorithms" 3rd Ed. p. 658
-  // Variable and function names correspond to names in the book.
-  shortestPath(sourceNode: NodeId, targetNode: NodeId) {
-    // Upper bounds for shortest path weights from source.
-    const d: Record<NodeId, EdgeWeight> = {};
-
-    // Predecessors.
-    const p: Record<NodeId, NodeId> = {};
-
-    // Poor man's priority queue, keyed on d.
-    let q: Record<NodeId, boolean> = {};
-
-    const initializeSingleSource = () => {
-      this.nodes.forEach((node) => {
-        d[node] = Infinity;
-      });
-      if (d[sourceNode] !== Infinity) {
-        throw new Error("Source node is not in the graph");
+  // Kahn's topological sort algorithm, grouping nodes into generations.
+  // Kahn, "Topological Sorting of Large Networks" (1962).
+  // The first generation holds the nodes without inbound edges, and every
+  // later generation the nodes whose inbound edges all come from earlier
+  // generations, so the nodes of one generation can be processed in
+  // parallel. Nodes within a generation are in the order they were added
+  // to the graph, or sorted with `compare` if given. Costs O(V + E).
+  // Throws a CycleError listing the nodes that could not be placed as
+  // `remaining` if the graph has cycles.
+  topologicalGenerations(
+    options: { compare?: (a: NodeId, b: NodeId) => number } = {}
+  ): NodeId[][] {
+    const { compare } = options;
+    const generations: NodeId[][] = [];
+
+    // Number of inbound edges from nodes that have not been placed yet.
+    const indegree = new Map<NodeId, number>();
+    let generation: NodeId[] = [];
+    this.nodes.forEach((node) => {
+      indegree.set(node, this.inbound(node).length);
+      if (indegree.get(node) === 0) {
+        generation.push(node);
       }
-      if (d[targetNode] !== Infinity) {
-        throw new Error("Destination node is not in the graph");
+    });
+
+    let placed = 0;
+    while (generation.length > 0) {
+      if (compare) {
+        generation.sort(compare);
       }
-      d[sourceNode] = 0;
-    };
+      generations.push(generation);
+      placed += generation.length;
+
+      const next: NodeId[] = [];
+      generation.forEach((u) => {
+        new Set(this.adjacent(u)).forEach((v) => {
+          const remaining = (indegree.get(v) as number) - 1;
+          indegree.set(v, remaining);
+          if (remaining === 0) {
+            next.push(v);
+          }
+        });
+      });
+      generation = next;
+    }
+
+    if (placed < indegree.size) {
+      const remaining = this.nodes.filter(
+        (node) => (indegree.get(node) as number) > 0
+      );
+      // Every remaining node has an inbound edge from another remaining
+      // node, so the remaining nodes contain a cycle.
+      const cycle = this.subgraph(remaining).findCycle() as NodeId[];
+      throw new CycleError(cycle, remaining);
+    }
+
+    return generations;
+  }
+
+  // Computes a path of maximum total weight in a directed acyclic graph,
+  // with its weight attached. Costs O(V + E), built on `topologicalSort`.
+  // Cormen et al. "Introduction to Algorithms" 3rd Ed. p. 657
+  // If a source node is given, only paths starting there are considered,
+  // and if a target node is given, only paths ending there.
+  // Throws a CycleError if the graph has cycles.
+  longestPath(sourceNode?: NodeId, targetNode?: NodeId): Path {
+    if (sourceNode !== undefined && !this._edges.has(sourceNode)) {
+      throw new Error("Source node is not in the graph");
+    }
+    if (targetNode !== undefined && !this._edges.has(targetNode)) {
+      throw new Error("Destination node is not in the graph");
+    }
+
+    const order = this.topologicalSort();
+    const { d, p } = this.longestDistances(order, sourceNode);
+
+    return this.assembleLongestPath(order, d, p, targetNode);
+  }
+
+  // Critical Path Method.
+  // Treats edge weights as durations between nodes and computes a longest
+  // path together with the earliest and latest start and the slack of
+  // every node. Nodes without inbound edges start at time 0, and nodes
+  // without outbound edges may start as late as the end of the project.
+  // Throws a CycleError if the graph has cycles.
+  criticalPath(): CriticalPath {
+    const order = this.topologicalSort();
+    const { d: earliest, p } = this.longestDistances(order);
+    const path = this.assembleLongestPath(order, earliest, p);
+    const weight = path.weight as EdgeWeight;
+
+    // Latest starts, computed backwards from the end of the project.
+    const latest = new Map<NodeId, number>();
+    [...order].reverse().forEach((u) => {
+      let latestStart = weight;
+      this.adjacent(u).forEach((v) => {
+        latestStart = Math.min(
+          latestStart,
+          (latest.get(v) as number) - this.getEdgeWeight(u, v)
+        );
+      });
+      latest.set(u, latestStart);
+    });
+
+    const schedule = new Map<NodeId, Schedule>();
+    order.forEach((node) => {
+      const earliestStart = earliest.get(node) as number;
+      const latestStart = latest.get(node) as number;
+      schedule.set(node, {
+        earliestStart,
+        latestStart,
+        slack: latestStart - earliestStart,
+      });
+    });
+
+    return { path, weight, schedule };
+  }
+
+  // Computes the maximum path weights towards every node, following the
+  // given topological order. Paths start at the source node if given, or
+  // at any node otherwise. Unreachable nodes get -Infinity.
+  protected longestDistances(order: NodeId[], sourceNode?: NodeId) {
+    const d = new Map<NodeId, EdgeWeight>();
+    const p = new Map<NodeId, NodeId>();
+
+    order.forEach((node) => {
+      d.set(node, sourceNode === undefined ? 0 : -Infinity);
+    });
+    if (sourceNode !== undefined) {
+      d.set(sourceNode, 0);
+    }
+
+    order.forEach((u) => {
+      const du = d.get(u) as EdgeWeight;
+      if (du === -Infinity) return;
+      this.adjacent(u).forEach((v) => {
+        const dv = du + this.getEdgeWeight(u, v);
+        if (dv > (d.get(v) as EdgeWeight)) {
+          d.set(v, dv);
+          p.set(v, u);
+        }
+      });
+    });
+
+    return { d, p };
+  }
+
+  // Assembles the path ending at the target node, or at the node with the
+  // maximum path weight if no target node is given, by traversing the
+  // predecessors from `longestDistances`.
+  protected assembleLongestPath(
+    order: NodeId[],
+    d: Map<NodeId, EdgeWeight>,
+    p: Map<NodeId, NodeId>,
+    targetNode?: NodeId
+  ): Path {
+    let end = targetNode;
+    if (end === undefined) {
+      order.forEach((node) => {
+        const dNode = d.get(node) as EdgeWeight;
+        if (end === undefined || dNode > (d.get(end) as EdgeWeight)) {
+          end = node;
+        }
+      });
+    }
+    if (end === undefined) {
+      return Object.assign([], { weight: 0 });
+    }
+    if (d.get(end) === -Infinity) {
+      throw new Error("No path found");
+    }
+
+    const nodeList: Path = [end];
+    for (let node = end; p.has(node); node = p.get(node) as NodeId) {
+      nodeList.push(p.get(node) as NodeId);
+    }
+    nodeList.reverse();
+    nodeList.weight = d.get(end);
+    return nodeList;
+  }
+
+  // Gets all nodes reachable from the given node, excluding the node itself,
+  // ordered by their distance in hops.
+  descendants(node: NodeId): NodeId[] {
+    const found = this.reachable(node, (u) => this.adjacent(u));
+    found.delete(node);
+    return [...found];
+  }
+
+  // Gets all nodes from which the given node is reachable, excluding the
+  // node itself, ordered by their distance in hops.
+  ancestors(node: NodeId): NodeId[] {
+    const found = this.reachable(node, (u) => this.inbound(u));
+    found.delete(node);
+    return [...found];
+  }
+
+  // Returns true if there is a path from node u to node v.
+  // Every node is reachable from itself.
+  isReachable(sourceNode: NodeId, targetNode: NodeId): boolean {
+    if (!this._edges.has(sourceNode) || !this._edges.has(targetNode)) {
+      return false;
+    }
+    let found = false;
+    this.reachable(sourceNode, (u) => {
+      found = found || u === targetNode;
+      return found ? [] : this.adjacent(u);
+    });
+    return found;
+  }
+
+  // Computes the transitive closure: a new graph with an edge from node u
+  // to node v whenever v is reachable from u. Existing edges keep their
+  // weights and data payloads. Costs O(V * (V + E)).
+  transitiveClosure(): this {
+    const closure = this.subgraph(this.nodes);
+    this.nodes.forEach((u) => {
+      this.descendants(u).forEach((v) => {
+        if (!closure.hasEdge(u, v)) {
+          closure.addEdge(u, v);
+        }
+      });
+    });
+    return closure;
+  }
+
+  // Computes the transitive reduction of a directed acyclic graph: a new
+  // graph with the fewest edges that has the same reachability, i.e.
+  // without edges (u, v) for which another path from u to v exists.
+  // Remaining edges keep their weights and data payloads. Costs
+  // O(V * (V + E)). Throws a CycleError if the graph has cycles.
+  transitiveReduction(): this {
+    this.topologicalSort();
+
+    const reduction = this.cloneEmpty();
+    this.nodes.forEach((node) => {
+      reduction.addNode(node, this._nodeData.get(node));
+    });
+    this.nodes.forEach((u) => {
+      const children = new Set(this.adjacent(u));
+
+      // Nodes reachable from u through paths of two or more edges.
+      const indirect = new Set<NodeId>();
+      children.forEach((child) => {
+        this.reachable(child, (w) =>
+          w === child || !indirect.has(w) ? this.adjacent(w) : []
+        ).forEach((w) => {
+          if (w !== child) indirect.add(w);
+        });
+      });
+
+      children.forEach((v) => {
+        if (!indirect.has(v)) {
+          this.copyEdgeTo(reduction, u, v);
+        }
+      });
+    });
+    return reduction;
+  }
 
-    // Adds entries in q for all nodes.
-    const initializePriorityQueue = () => {
-      this.nodes.forEach((node) => {
-        q[node] = true;
+  // Breadth-first search collecting all nodes reachable from the given
+  // node, including the node itself, by following the given neighbours.
+  protected reachable(
+    node: NodeId,
+    next: (node: NodeId) => readonly NodeId[]
+  ): Set<NodeId> {
+    const found = new Set<NodeId>([node]);
+    const queue = [node];
+    for (let i = 0; i < queue.length; i++) {
+      next(queue[i]).forEach((v) => {
+        if (!found.has(v)) {
+          found.add(v);
+          queue.push(v);
+        }
       });
+    }
+    return found;
+  }
+
+  // Tarjan's Strongly Connected Components Algorithm.
+  // Tarjan, "Depth-First Search and Linear Graph Algorithms" (1972).
+  // Returns the groups of nodes that can all reach each other, costs
+  // O(V + E). Components are returned in topological order, i.e. no
+  // component has an edge towards an earlier one. The members of each
+  // component are listed in depth-first discovery order.
+  stronglyConnectedComponents(): NodeId[][] {
+    const components: NodeId[][] = [];
+
+    // Discovery index and lowest reachable index of each node.
+    const indices = new Map<NodeId, number>();
+    const lowlinks = new Map<NodeId, number>();
+
+    // Nodes of components that have not been completed yet.
+    const stack: NodeId[] = [];
+    const onStack = new Set<NodeId>();
+
+    const discover = (node: NodeId) => {
+      indices.set(node, indices.size);
+      lowlinks.set(node, indices.size - 1);
+      stack.push(node);
+      onStack.add(node);
     };
 
-    // Returns true if q is empty.
-    const priorityQueueEmpty = () => {
-      return Object.keys(q).length === 0;
+    const lowerLowlink = (node: NodeId, value: number) => {
+      if (value < (lowlinks.get(node) as number)) {
+        lowlinks.set(node, value);
+      }
     };
 
-    // Linear search to extract (find and remove) min from q.
-    const extractMin = (): NodeId | null => {
-      let min = Infinity;
-      let minNode;
-      Object.keys(q).forEach((node) => {
-        if (d[node] < min) {
-          min = d[node];
-          minNode = node;
+    this.nodes.forEach((root) => {
+      if (indices.has(root)) return;
+
+      // Explicit call stack of nodes with their remaining neighbours.
+      discover(root);
+      const work = [{ node: root, neighbours: this.adjacent(root).values() }];
+
+      while (work.length > 0) {
+        const { node, neighbours } = work[work.length - 1];
+        const next = neighbours.next();
+
+        if (!next.done) {
+          const v = next.value;
+          if (!indices.has(v)) {
+            discover(v);
+            work.push({ node: v, neighbours: this.adjacent(v).values() });
+          } else if (onStack.has(v)) {
+            lowerLowlink(node, indices.get(v) as number);
+          }
+          continue;
+        }
+
+        work.pop();
+        if (work.length > 0) {
+          lowerLowlink(
+            work[work.length - 1].node,
+            lowlinks.get(node) as number
+          );
+        }
+
+        // The node is the root of a component; its members are on the
+        // stack above it.
+        if (lowlinks.get(node) === indices.get(node)) {
+          const component = stack.splice(stack.lastIndexOf(node));
+          component.forEach((member) => {
+            onStack.delete(member);
+          });
+          components.push(component);
         }
+      }
+    });
+
+    // Tarjan's algorithm completes components in reverse topological order.
+    return components.reverse();
+  }
+
+  // Computes the condensation of the graph: a directed acyclic graph with
+  // one node per strongly connected component and an edge between two
+  // components if any of their members are connected.
+  // Nodes are the component indices from `stronglyConnectedComponents`,
+  // and the data payload of each node is the list of its member nodes.
+  condensation(): Graph<NodeId[]> {
+    const components = this.stronglyConnectedComponents();
+    const componentOf = new Map<NodeId, number>();
+    const dag = new Graph<NodeId[]>();
+
+    components.forEach((members, i) => {
+      members.forEach((member) => {
+        componentOf.set(member, i);
       });
-      if (minNode === undefined) {
-        // If we reach here, there's a disconnected subgraph, and we're done.
-        q = {};
-        return null;
+      dag.addNode(i, members);
+    });
+
+    this._edges.forEach((targetNodes, sourceNode) => {
+      const u = componentOf.get(sourceNode) as number;
+      targetNodes.forEach((targetNode) => {
+        const v = componentOf.get(targetNode) as number;
+        if (u !== v && !dag.hasEdge(u, v)) {
+          dag.addEdge(u, v);
+        }
+      });
+    });
+
+    return dag;
+  }
+
+  // Finds the groups of nodes that are connected when edge direction is
+  // ignored, costs O((V + E) α(V)). Components are ordered by their earliest added
+  // node, and the members of each component are listed in the order they
+  // were added to the graph.
+  weaklyConnectedComponents(): NodeId[][] {
+    const components = new UnionFind(this.nodes);
+
+    this._edges.forEach((targetNodes, sourceNode) => {
+      targetNodes.forEach((targetNode) => {
+        components.union(sourceNode, targetNode);
+      });
+    });
+
+    return components.sets();
+  }
+
+  // Splits the graph into one graph per weakly connected component.
+  // The new graphs have the class of this graph and keep edge weights and
+  // data payloads.
+  splitComponents(): this[] {
+    return this.weaklyConnectedComponents().map((component) =>
+      this.subgraph(component)
+    );
+  }
+
+  // Creates the subgraph induced by the given nodes, i.e. with the given
+  // nodes and all edges between them. The new graph has the class of this
+  // graph and keeps edge weights and data payloads.
+  subgraph(nodes: Iterable<NodeId>): this {
+    const nodeSet = new Set(nodes);
+    const graph = this.cloneEmpty();
+
+    nodeSet.forEach((node) => {
+      if (this._edges.has(node)) {
+        graph.addNode(node, this._nodeData.get(node));
       }
-      delete q[minNode];
-      return minNode;
-    };
+    });
+    nodeSet.forEach((sourceNode) => {
+      this.adjacent(sourceNode).forEach((targetNode) => {
+        if (nodeSet.has(targetNode) && !graph.hasEdge(sourceNode, targetNode)) {
+          this.copyEdgeTo(graph, sourceNode, targetNode);
+        }
+      });
+    });
+
+    return graph;
+  }
 
-    const relax = (u: NodeId, v: NodeId) => {
-      const w = this.getEdgeWeight(u, v);
-      if (d[v] > d[u] + w) {
-        d[v] = d[u] + w;
-        p[v] = u;
+  // Creates an empty graph of the same class as this graph.
+  protected cloneEmpty(): this {
+    return new (this.constructor as new () => this)();
+  }
+
+  // Adds the edge from node u to node v to the given graph, keeping its
+  // weight and data payload if they were set.
+  protected copyEdgeTo(
+    graph: Graph<N, E>,
+    sourceNode: NodeId,
+    targetNode: NodeId
+  ) {
+    graph.addEdge(
+      sourceNode,
+      targetNode,
+      this._edgeWeights.get(sourceNode, targetNode),
+      this._edgeData.get(sourceNode, targetNode)
+    );
+  }
+
+  // Dijkstra's Shortest Path Algorithm.
+  // Cormen et al. "Introduction to Algorithms" 3rd Ed. p. 658
+  // Returns the shortest path from the source node to the target node,
+  // with the total path weight attached as `weight`.
+  // Falls back to Bellman-Ford if the graph has negative edge weights,
+  // for which Dijkstra's algorithm would return wrong paths.
+  shortestPath(sourceNode: NodeId, targetNode: NodeId): Path {
+    if (!this._edges.has(sourceNode)) {
+      throw new Error("Source node is not in the graph");
+    }
+    if (!this._edges.has(targetNode)) {
+      throw new Error("Destination node is not in the graph");
+    }
+
+    if (this.hasNegativeEdgeWeights()) {
+      return this.bellmanFord(sourceNode).pathTo(targetNode);
+    }
+
+    const { d, p } = this.dijkstra(sourceNode, { targetNode });
+
+    return this.assemblePath(sourceNode, targetNode, d, p);
+  }
+
+  // Computes the shortest paths from the source node to every other node,
+  // so that paths to many targets can be answered from a single run.
+  // Falls back to Bellman-Ford if the graph has negative edge weights.
+  shortestPaths(sourceNode: NodeId): ShortestPaths {
+    if (!this._edges.has(sourceNode)) {
+      throw new Error("Source node is not in the graph");
+    }
+
+    if (this.hasNegativeEdgeWeights()) {
+      return this.bellmanFord(sourceNode);
+    }
+
+    const { d, p } = this.dijkstra(sourceNode);
+
+    return this.shortestPathTree(sourceNode, d, p);
+  }
+
+  // Bellman-Ford Shortest Path Algorithm.
+  // Cormen et al. "Introduction to Algorithms" 3rd Ed. p. 651
+  // Supports negative edge weights, costs O(V * E).
+  // Throws a NegativeCycleError if a negative cycle can be reached from
+  // the source node.
+  bellmanFord(sourceNode: NodeId): ShortestPaths {
+    if (!this._edges.has(sourceNode)) {
+      throw new Error("Source node is not in the graph");
+    }
+
+    const d = new Map<NodeId, EdgeWeight>();
+    this.nodes.forEach((node) => {
+      d.set(node, Infinity);
+    });
+    d.set(sourceNode, 0);
+
+    const p = this.relaxEdges(d);
+
+    return this.shortestPathTree(sourceNode, d, p);
+  }
+
+  // Computes the shortest paths between all pairs of nodes.
+  // Uses Floyd-Warshall on dense graphs, costs O(V^3), and Johnson's
+  // algorithm on sparse graphs, costs O(V * E log V). The algorithm can be
+  // forced with the `algorithm` option.
+  // Throws a NegativeCycleError if the graph has a negative cycle.
+  allPairsShortestPaths(
+    options: { algorithm?: AllPairsAlgorithm } = {}
+  ): AllPairsShortestPaths {
+    const nodes = this.nodes;
+    const index = new Map<NodeId, number>();
+    nodes.forEach((node, i) => {
+      index.set(node, i);
+    });
+
+    let edgeCount = 0;
+    this._edges.forEach((targetNodes) => {
+      edgeCount += targetNodes.length;
+    });
+    const algorithm =
+      options.algorithm ??
+      (edgeCount * Math.log2(nodes.length + 1) < nodes.length * nodes.length
+        ? "johnson"
+        : "floyd-warshall");
+
+    // dist[i][j] is the shortest path weight from node i to node j.
+    // next[i][j] is the index of the node following node i on that path,
+    // or -1 if there is none.
+    const { dist, next } =
+      algorithm === "johnson"
+        ? this.johnson(nodes, index)
+        : this.floydWarshall(nodes, index);
+
+    const lookup = (node: NodeId, message: string) => {
+      const i = index.get(node);
+      if (i === undefined) {
+        throw new Error(message);
       }
+      return i;
     };
 
-    const dijkstra = () => {
-      initializeSingleSource();
-      initializePriorityQueue();
-      while (!priorityQueueEmpty()) {
-        const u = extractMin();
-        if (u === null) return;
-        this.adjacent(u).forEach((v) => {
-          relax(u as string, v);
+    return {
+      nodes,
+      algorithm,
+      distance: (sourceNode, targetNode) => {
+        const i = lookup(sourceNode, "Source node is not in the graph");
+        const j = lookup(targetNode, "Destination node is not in the graph");
+        return dist[i][j];
+      },
+      nextHop: (sourceNode, targetNode) => {
+        const i = lookup(sourceNode, "Source node is not in the graph");
+        const j = lookup(targetNode, "Destination node is not in the graph");
+        return next[i][j] === -1 ? undefined : nodes[next[i][j]];
+      },
+      path: (sourceNode, targetNode) => {
+        let i = lookup(sourceNode, "Source node is not in the graph");
+        const j = lookup(targetNode, "Destination node is not in the graph");
+        if (dist[i][j] === Infinity) {
+          throw new Error("No path found");
+        }
+        const nodeList: Path = [sourceNode];
+        while (i !== j) {
+          i = next[i][j];
+          nodeList.push(nodes[i]);
+        }
+        nodeList.weight = dist[index.get(sourceNode) as number][j];
+        return nodeList;
+      },
+      toMatrix: () => dist.map((row) => [...row]),
+    };
+  }
+
+  // Floyd-Warshall All-Pairs Shortest Path Algorithm.
+  // Cormen et al. "Introduction to Algorithms" 3rd Ed. p. 695
+  protected floydWarshall(nodes: NodeId[], index: Map<NodeId, number>) {
+    const n = nodes.length;
+    const dist = nodes.map(() => new Array<EdgeWeight>(n).fill(Infinity));
+    const next = nodes.map(() => new Array<number>(n).fill(-1));
+
+    nodes.forEach((u, i) => {
+      dist[i][i] = 0;
+      next[i][i] = i;
+      this.adjacent(u).forEach((v) => {
+        const j = index.get(v) as number;
+        const w = this.getEdgeWeight(u, v);
+        if (w < dist[i][j]) {
+          dist[i][j] = w;
+          next[i][j] = j;
+        }
+      });
+    });
+
+    for (let k = 0; k < n; k++) {
+      const distK = dist[k];
+      for (let i = 0; i < n; i++) {
+        const distIK = dist[i][k];
+        if (distIK === Infinity) continue;
+        const distI = dist[i];
+        const nextI = next[i];
+        for (let j = 0; j < n; j++) {
+          if (distIK + distK[j] < distI[j]) {
+            distI[j] = distIK + distK[j];
+            nextI[j] = nextI[k];
+          }
+        }
+      }
+    }
+
+    if (dist.some((row, i) => row[i] < 0)) {
+      // Let Bellman-Ford find and report the negative cycle.
+      this.relaxEdges(
+        new Map(nodes.map((node): [NodeId, EdgeWeight] => [node, 0]))
+      );
+    }
+
+    return { dist, next };
+  }
+
+  // Johnson's All-Pairs Shortest Path Algorithm.
+  // Cormen et al. "Introduction to Algorithms" 3rd Ed. p. 700
+  // Reweights edges to be non-negative using Bellman-Ford potentials,
+  // then runs Dijkstra from every node.
+  protected johnson(nodes: NodeId[], index: Map<NodeId, number>) {
+    // Starting every bound at 0 is equivalent to adding a new source node
+    // with zero-weight edges to every node, as in the book.
+    const h = new Map(nodes.map((node): [NodeId, EdgeWeight] => [node, 0]));
+    this.relaxEdges(h);
+    const weight = (u: NodeId, v: NodeId) =>
+      this.getEdgeWeight(u, v) +
+      (h.get(u) as EdgeWeight) -
+      (h.get(v) as EdgeWeight);
+
+    const dist: EdgeWeight[][] = [];
+    const next: number[][] = [];
+
+    nodes.forEach((u, i) => {
+      const { d, p } = this.dijkstra(u, { weight });
+      const hu = h.get(u) as EdgeWeight;
+      dist[i] = nodes.map((v) => {
+        const dv = d.get(v) as EdgeWeight;
+        return dv === Infinity ? Infinity : dv - hu + (h.get(v) as EdgeWeight);
+      });
+
+      // The next hop towards v is the next hop towards its predecessor,
+      // resolved with memoization along each predecessor chain.
+      const hops = new Array<number>(nodes.length).fill(-1);
+      hops[i] = i;
+      nodes.forEach((v, j) => {
+        const chain: number[] = [];
+        let node = v;
+        let k = j;
+        while (hops[k] === -1 && p.has(node)) {
+          chain.push(k);
+          const predecessor = p.get(node) as NodeId;
+          if (predecessor === u) {
+            hops[k] = k;
+            chain.pop();
+            break;
+          }
+          node = predecessor;
+          k = index.get(node) as number;
+        }
+        const hop = hops[k];
+        chain.forEach((c) => {
+          hops[c] = hop;
+        });
+      });
+      next[i] = hops;
+    });
+
+    return { dist, next };
+  }
+
+  // Edmonds-Karp Maximum Flow Algorithm.
+  // Cormen et al. "Introduction to Algorithms" 3rd Ed. p. 727
+  // Treats edge weights as capacities and repeatedly augments the flow
+  // along a shortest path in the residual network, costs O(V * E^2).
+  // Also returns a minimum cut, which separates the nodes still reachable
+  // from the source node in the residual network from all others.
+  maxFlow(sourceNode: NodeId, sinkNode: NodeId): MaxFlow {
+    if (!this._edges.has(sourceNode)) {
+      throw new Error("Source node is not in the graph");
+    }
+    if (!this._edges.has(sinkNode)) {
+      throw new Error("Sink node is not in the graph");
+    }
+    if (sourceNode === sinkNode) {
+      throw new Error("Source and sink node must differ");
+    }
+    if (this.hasNegativeEdgeWeights()) {
+      throw new Error("Negative edge weights are not supported");
+    }
+
+    // Residual capacities. Antiparallel edges share one residual entry.
+    const residual = new Map<NodeId, Map<NodeId, number>>();
+    this.nodes.forEach((node) => {
+      residual.set(node, new Map());
+    });
+    const edges: [NodeId, NodeId][] = [];
+    this._edges.forEach((targetNodes, u) => {
+      new Set(targetNodes).forEach((v) => {
+        edges.push([u, v]);
+        const ru = residual.get(u) as Map<NodeId, number>;
+        const rv = residual.get(v) as Map<NodeId, number>;
+        ru.set(v, (ru.get(v) ?? 0) + this.getEdgeWeight(u, v));
+        rv.set(u, rv.get(u) ?? 0);
+      });
+    });
+
+    // Breadth-first search in the residual network. Returns the
+    // predecessors of all reached nodes.
+    const search = () => {
+      const p = new Map<NodeId, NodeId>([[sourceNode, sourceNode]]);
+      const queue = [sourceNode];
+      for (let i = 0; i < queue.length && !p.has(sinkNode); i++) {
+        const u = queue[i];
+        (residual.get(u) as Map<NodeId, number>).forEach((capacity, v) => {
+          if (capacity > 0 && !p.has(v)) {
+            p.set(v, u);
+            queue.push(v);
+          }
         });
       }
+      return p;
     };
 
-    // Assembles the shortest path by traversing the
-    // predecessor subgraph from destination to source.
-    const path = () => {
-      const nodeList: NodeId[] & { weight?: EdgeWeight } = [];
-      let weight = 0;
-      let node = targetNode;
-      while (p[node]) {
-        nodeList.push(node);
-        weight += this.getEdgeWeight(p[node], node);
-        node = p[node];
+    let value = 0;
+    let p = search();
+    while (p.has(sinkNode)) {
+      let bottleneck = Infinity;
+      for (let v = sinkNode; v !== sourceNode; v = p.get(v) as NodeId) {
+        const u = p.get(v) as NodeId;
+        bottleneck = Math.min(
+          bottleneck,
+          (residual.get(u) as Map<NodeId, number>).get(v) as number
+        );
       }
-      if (node !== sourceNode) {
-        throw new Error("No path found");
+      if (bottleneck === Infinity) {
+        throw new Error("Flow is unbounded");
       }
-      nodeList.push(node);
-      nodeList.reverse();
-      nodeList.weight = weight;
-      return nodeList;
+      for (let v = sinkNode; v !== sourceNode; v = p.get(v) as NodeId) {
+        const u = p.get(v) as NodeId;
+        const ru = residual.get(u) as Map<NodeId, number>;
+        const rv = residual.get(v) as Map<NodeId, number>;
+        ru.set(v, (ru.get(v) as number) - bottleneck);
+        rv.set(u, (rv.get(u) as number) + bottleneck);
+      }
+      value += bottleneck;
+      p = search();
+    }
+
+    // The net flow from u to v is the capacity of (u, v) used up in the
+    // residual network. A negative net flow runs along the edge (v, u).
+    const flows = edges.map(([u, v]) => {
+      const remaining = (residual.get(u) as Map<NodeId, number>).get(v);
+      const net = this.getEdgeWeight(u, v) - (remaining as number);
+      return { source: u, target: v, flow: Math.max(0, net) };
+    });
+
+    const sourceSide = this.nodes.filter((node) => p.has(node));
+    const sinkSide = this.nodes.filter((node) => !p.has(node));
+    const cutEdges = edges
+      .filter(([u, v]) => p.has(u) && !p.has(v))
+      .map(([u, v]) => ({
+        source: u,
+        target: v,
+        weight: this.getEdgeWeight(u, v),
+      }));
+
+    return { value, flows, sourceSide, sinkSide, cutEdges };
+  }
+
+  // Returns true if any edge of the graph has a negative weight.
+  hasNegativeEdgeWeights() {
+    for (const [sourceNode, targetNodes] of this._edges) {
+      for (const targetNode of targetNodes) {
+        if (this.getEdgeWeight(sourceNode, targetNode) < 0) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+
+  // Repeatedly relaxes all edges, starting from the upper bounds in d,
+  // until the bounds no longer change. Updates d in place and returns
+  // the predecessors. Throws a NegativeCycleError if the bounds still
+  // change after V - 1 rounds.
+  protected relaxEdges(d: Map<NodeId, EdgeWeight>) {
+    const p = new Map<NodeId, NodeId>();
+    const nodeCount = this._edges.size;
+
+    // Relaxes every edge once and returns the target of the
+    // last edge that was relaxed, if any.
+    const relaxAll = () => {
+      let relaxed: NodeId | undefined;
+      this._edges.forEach((targetNodes, u) => {
+        const du = d.get(u) as EdgeWeight;
+        if (du === Infinity) return;
+        targetNodes.forEach((v) => {
+          const dv = du + this.getEdgeWeight(u, v);
+          if (dv < (d.get(v) as EdgeWeight)) {
+            d.set(v, dv);
+            p.set(v, u);
+            relaxed = v;
+          }
+        });
+      });
+      return relaxed;
+    };
+
+    for (let i = 1; i < nodeCount; i++) {
+      if (relaxAll() === undefined) {
+        return p;
+      }
+    }
+
+    let node = relaxAll();
+    if (node === undefined) {
+      return p;
+    }
+
+    // The node was relaxed in round V, so it is reachable from a negative
+    // cycle. Walking V predecessors back is guaranteed to end on the cycle.
+    for (let i = 0; i < nodeCount; i++) {
+      node = p.get(node) as NodeId;
+    }
+    const cycle: NodeId[] = [node];
+    for (let u = p.get(node) as NodeId; u !== node; u = p.get(u) as NodeId) {
+      cycle.push(u);
+    }
+    throw new NegativeCycleError(cycle.reverse());
+  }
+
+  // Wraps the result of a single-source shortest path run.
+  protected shortestPathTree(
+    sourceNode: NodeId,
+    d: Map<NodeId, EdgeWeight>,
+    p: Map<NodeId, NodeId>
+  ): ShortestPaths {
+    return {
+      source: sourceNode,
+      distances: d,
+      predecessors: p,
+      pathTo: (targetNode: NodeId) => {
+        if (!this._edges.has(targetNode)) {
+          throw new Error("Destination node is not in the graph");
+        }
+        return this.assemblePath(sourceNode, targetNode, d, p);
+      },
+    };
+  }
+
+  // A* Search Algorithm.
+  // Hart, Nilsson and Raphael, "A Formal Basis for the Heuristic
+  // Determination of Minimum Cost Paths" (1968).
+  // Works like `shortestPath`, but expands nodes in order of their path
+  // weight plus the heuristic estimate of the remaining weight, which
+  // expands fewer nodes when the heuristic is informative. The number of
+  // expanded nodes is attached as `expanded`.
+  // Throws if the graph has negative edge weights.
+  aStar(
+    sourceNode: NodeId,
+    targetNode: NodeId,
+    heuristic: Heuristic
+  ): Path & { expanded: number } {
+    if (!this._edges.has(sourceNode)) {
+      throw new Error("Source node is not in the graph");
+    }
+    if (!this._edges.has(targetNode)) {
+      throw new Error("Destination node is not in the graph");
+    }
+    if (this.hasNegativeEdgeWeights()) {
+      throw new Error("Negative edge weights are not supported");
+    }
+
+    const { d, p, expanded } = this.dijkstra(sourceNode, {
+      targetNode,
+      heuristic,
+    });
+
+    return Object.assign(this.assemblePath(sourceNode, targetNode, d, p), {
+      expanded,
+    });
+  }
+
+  // Yen's K Shortest Loopless Paths Algorithm.
+  // Yen, "Finding the K Shortest Loopless Paths in a Network" (1971).
+  // Returns up to k paths without repeated nodes from the source node to
+  // the target node, ordered by weight, each with its weight attached.
+  // Returns an empty list if there is no path. Edge weights must be
+  // non-negative.
+  kShortestPaths(sourceNode: NodeId, targetNode: NodeId, k: number): Path[] {
+    if (!this._edges.has(sourceNode)) {
+      throw new Error("Source node is not in the graph");
+    }
+    if (!this._edges.has(targetNode)) {
+      throw new Error("Destination node is not in the graph");
+    }
+    if (this.hasNegativeEdgeWeights()) {
+      throw new Error("Negative edge weights are not supported");
+    }
+
+    // Shortest path avoiding the given nodes and edges, or null if none.
+    const spurPath = (
+      spurNode: NodeId,
+      blockedNodes: Set<NodeId>,
+      blockedEdges: Map<NodeId, Set<NodeId>>
+    ) => {
+      const { d, p } = this.dijkstra(spurNode, {
+        targetNode,
+        weight: (u, v) =>
+          blockedNodes.has(v) || blockedEdges.get(u)?.has(v)
+            ? Infinity
+            : this.getEdgeWeight(u, v),
+      });
+      if (d.get(targetNode) === Infinity) {
+        return null;
+      }
+      return this.assemblePath(spurNode, targetNode, d, p);
     };
 
-    dijkstra();
+    const paths: Path[] = [];
+    const first = spurPath(sourceNode, new Set(), new Map());
+    if (first === null || k < 1) {
+      return paths;
+    }
+    paths.push(first);
+
+    // Candidate paths, keyed on weight, and the keys of all paths seen so
+    // far. JSON keeps numeric and string node ids apart.
+    const candidates = new PriorityQueue<Path>();
+    const seen = new Set<string>([JSON.stringify(first)]);
+
+    while (paths.length < k) {
+      const previous = paths[paths.length - 1];
+      let rootWeight = 0;
+
+      for (let i = 0; i < previous.length - 1; i++) {
+        const spurNode = previous[i];
+        const rootPath = previous.slice(0, i + 1);
+
+        // Block the next edge of every accepted path sharing this root,
+        // and the root nodes so that the result stays loopless.
+        const blockedEdges = new Map<NodeId, Set<NodeId>>();
+        paths.forEach((path) => {
+          if (rootPath.every((node, j) => path[j] === node)) {
+            const edges = blockedEdges.get(path[i]) ?? new Set<NodeId>();
+            edges.add(path[i + 1]);
+            blockedEdges.set(path[i], edges);
+          }
+        });
+        const blockedNodes = new Set(rootPath.slice(0, -1));
+
+        const spur = spurPath(spurNode, blockedNodes, blockedEdges);
+        if (spur !== null) {
+          const candidate: Path = [...rootPath.slice(0, -1), ...spur];
+          candidate.weight = rootWeight + (spur.weight as EdgeWeight);
+          const key = JSON.stringify(candidate);
+          if (!seen.has(key)) {
+            seen.add(key);
+            candidates.push(candidate, candidate.weight);
+          }
+        }
+
+        rootWeight += this.getEdgeWeight(spurNode, previous[i + 1]);
+      }
+
+      const next = candidates.pop();
+      if (next === undefined) {
+        break;
+      }
+      paths.push(next);
+    }
 
-    return path();
+    return paths;
+  }
+
+  // Lazily enumerates all paths without repeated nodes from the source node
+  // to the target node, each with its weight attached. Paths are yielded in
+  // depth-first order, so enumeration can be stopped at any time.
+  // `maxLength` limits the number of edges per path and `maxCount` the
+  // number of yielded paths.
+  *simplePaths(
+    sourceNode: NodeId,
+    targetNode: NodeId,
+    options: { maxLength?: number; maxCount?: number } = {}
+  ): Generator<Path, void, undefined> {
+    if (!this._edges.has(sourceNode)) {
+      throw new Error("Source node is not in the graph");
+    }
+    if (!this._edges.has(targetNode)) {
+      throw new Error("Destination node is not in the graph");
+    }
+    const { maxLength = Infinity, maxCount = Infinity } = options;
+    if (maxCount < 1) {
+      return;
+    }
+
+    let count = 0;
+    if (sourceNode === targetNode) {
+      yield Object.assign([sourceNode], { weight: 0 });
+      return;
+    }
+    if (maxLength < 1) {
+      return;
+    }
+
+    // The current path, the weights leading up to each of its nodes and
+    // the remaining neighbours to try for each of its nodes.
+    const path: NodeId[] = [sourceNode];
+    const weights: EdgeWeight[] = [0];
+    const onPath = new Set<NodeId>([sourceNode]);
+    const stack: Iterator<NodeId>[] = [
+      new Set(this.adjacent(sourceNode)).values(),
+    ];
+
+    while (stack.length > 0) {
+      const next = stack[stack.length - 1].next();
+      if (next.done) {
+        stack.pop();
+        onPath.delete(path.pop() as NodeId);
+        weights.pop();
+        continue;
+      }
+
+      const u = path[path.length - 1];
+      const v = next.value;
+      if (onPath.has(v)) continue;
+
+      const weight = weights[weights.length - 1] + this.getEdgeWeight(u, v);
+      if (v === targetNode) {
+        yield Object.assign([...path, v], { weight });
+        if (++count >= maxCount) return;
+      } else if (path.length < maxLength) {
+        path.push(v);
+        weights.push(weight);
+        onPath.add(v);
+        stack.push(new Set(this.adjacent(v)).values());
+      }
+    }
+  }
+
+  // Dijkstra's algorithm with a binary heap as priority queue, costs
+  // O((V + E) log V). Variable names correspond to names in the book.
+  // Nodes are queued again when their bound improves and stale queue
+  // entries are skipped, so A* heuristics need not be consistent.
+  // If a target node is given, the search stops once it is expanded.
+  protected dijkstra(sourceNode: NodeId, options: DijkstraOptions = {}) {
+    const {
+      targetNode,
+      weight = (u: NodeId, v: NodeId) => this.getEdgeWeight(u, v),
+      heuristic = () => 0,
+    } = options;
+
+    // Upper bounds for shortest path weights from source.
+    const d = new Map<NodeId, EdgeWeight>();
+
+    // Predecessors.
+    const p = new Map<NodeId, NodeId>();
+
+    // Queue keyed on d plus the heuristic estimate.
+    const q = new PriorityQueue<NodeId>();
+
+    // Number of nodes taken from the queue and expanded.
+    let expanded = 0;
+
+    this.nodes.forEach((node) => {
+      d.set(node, Infinity);
+    });
+    d.set(sourceNode, 0);
+    q.push(sourceNode, heuristic(sourceNode));
+
+    while (!q.isEmpty()) {
+      const priority = q.peekPriority();
+      const u = q.pop() as NodeId;
+      const du = d.get(u) as EdgeWeight;
+      if (priority > du + heuristic(u)) continue;
+      expanded++;
+      if (u === targetNode) break;
+
+      this.adjacent(u).forEach((v) => {
+        const dv = du + weight(u, v);
+        if (dv < (d.get(v) as EdgeWeight)) {
+          d.set(v, dv);
+          p.set(v, u);
+          q.push(v, dv + heuristic(v));
+        }
+      });
+    }
+
+    return { d, p, expanded };
+  }
+
+  // Assembles the shortest path by traversing the
+  // predecessor subgraph from destination to source.
+  protected assemblePath(
+    sourceNode: NodeId,
+    targetNode: NodeId,
+    d: Map<NodeId, EdgeWeight>,
+    p: Map<NodeId, NodeId>
+  ): Path {
+    const nodeList: Path = [];
+    let node = targetNode;
+    while (p.has(node) && node !== sourceNode) {
+      nodeList.push(node);
+      node = p.get(node) as NodeId;
+    }
+    if (node !== sourceNode) {
+      throw new Error("No path found");
+    }
+    nodeList.push(node);
+    nodeList.reverse();
+    nodeList.weight = d.get(targetNode);
+    return nodeList;
   }
 
   // Serializes the graph.
+  // Data payloads are only included for nodes and edges that have one.
   serialize() {
-    const serialized: Serialized = {
+    const serialized: Serialized<N, E> = {
       nodes: this.nodes.map((id) => {
+        if (this._nodeData.has(id)) {
+          return { id: id, data: this._nodeData.get(id) };
+        }
         return { id: id };
       }),
       links: [],
     };
 
     serialized.nodes.forEach((node) => {
-      const source = node.id;
-      this.adjacent(source).forEach((target) => {
-        serialized.links.push({
-          source: source,
-          target: target,
-          weight: this.getEdgeWeight(source, target),
-        });
+      this.adjacent(node.id).forEach((target) => {
+        serialized.links.push(this.link(node.id, target));
       });
     });
 
     return serialized;
   }
 
+  // Generates the links of the graph one at a time, in the format of
+  // `serialize`, so writers do not have to hold a copy of all edges.
+  // Undirected graphs generate every edge once, multigraphs every parallel
+  // edge with its id.
+  *links(): IterableIterator<Serialized<N, E>["links"][number]> {
+    for (const [source, targets] of this._edges) {
+      for (const target of targets) {
+        yield this.link(source, target);
+      }
+    }
+  }
+
+  // Gets the link of the edge from node u to node v.
+  protected link(
+    sourceNode: NodeId,
+    targetNode: NodeId
+  ): Serialized<N, E>["links"][number] {
+    const link: Serialized<N, E>["links"][number] = {
+      source: sourceNode,
+      target: targetNode,
+      weight: this.getEdgeWeight(sourceNode, targetNode),
+    };
+    if (this._edgeData.has(sourceNode, targetNode)) {
+      link.data = this.getEdgeData(sourceNode, targetNode);
+    }
+    return link;
+  }
+
+  // Writes the graph in the DOT language of Graphviz, see `toDot`.
+  toDot(options: DotOptions = {}): string {
+    return toDot(this, options);
+  }
+
   /**
    * Reset graph structure
    */
   reset() {
+    // Removal events are only built if anybody can observe them.
+    const observed =
+      this._emitter.hasListeners() ||
+      this._transactions.length > 0 ||
+      this._history.limit > 0;
+    const removed = observed ? this.removalEvents() : [];
+
+    this.clear();
+    this.batch(() => {
+      removed.forEach((event) => this.emit(event));
+      this.emit({ type: "reset" });
+    });
+  }
+
+  // Removes all nodes and edges without emitting events.
+  protected clear() {
     this._edges.clear();
+    this._reverseEdges.clear();
+    this._edgeWeights.clear();
+    this._nodeData.clear();
+    this._edgeData.clear();
   }
 
-  // Deserializes the given serialized graph.
-  deserialize(serialized: Serialized, reset = false) {
-    if (reset) {
-      this.reset();
-    }
+  // Builds the events for removing all edges and then all nodes.
+  protected removalEvents(): GraphEvent<N, E>[] {
+    const events = this.edgeRemovalEvents();
+    this._edges.forEach((targetNodes, node) => {
+      events.push({
+        type: "nodeRemoved",
+        node,
+        data: this._nodeData.get(node),
+      });
+    });
+    return events;
+  }
 
-    serialized.nodes.forEach((node) => {
-      this.addNode(node.id);
+  // Builds the events for removing all edges.
+  protected edgeRemovalEvents(): GraphEvent<N, E>[] {
+    const events: GraphEvent<N, E>[] = [];
+    this._edges.forEach((targetNodes, sourceNode) => {
+      targetNodes.forEach((targetNode) => {
+        events.push(this.edgeRemovedEvent(sourceNode, targetNode));
+      });
     });
+    return events;
+  }
 
-    serialized.links.forEach((link) => {
-      this.addEdge(link.source, link.target, link.weight);
+  // Deserializes the given serialized graph.
+  deserialize(serialized: Serialized<N, E>, reset = false) {
+    this.batch(() => {
+      if (reset) {
+        this.reset();
+      }
+
+      serialized.nodes.forEach((node) => {
+        this.addNode(node.id, node.data);
+      });
+
+      serialized.links.forEach((link) => {
+        this.addEdge(link.source, link.target, link.weight, link.data);
+      });
     });
   }
 }
 
-export class UndirectedGraph extends Graph {
+export class UndirectedGraph<N = unknown, E = unknown> extends Graph<N, E> {
+  get undirected(): boolean {
+    return true;
+  }
+
   // Implicitly adds the nodes if they were not already added.
-  addEdge(sourceNode: NodeId, targetNode: NodeId, weight?: EdgeWeight) {
-    this.addNode(sourceNode);
-    this.addNode(targetNode);
+  // Emits a single event per undirected edge.
+  addEdge(
+    sourceNode: NodeId,
+    targetNode: NodeId,
+    weight?: EdgeWeight,
+    data?: E
+  ) {
+    return this.batch(() => {
+      this.addNode(sourceNode);
+      this.addNode(targetNode);
 
-    this.adjacent(sourceNode).push(targetNode);
-    this.adjacent(targetNode).push(sourceNode);
+      if (this.hasEdge(sourceNode, targetNode)) {
+        if (weight !== undefined) {
+          this.setEdgeWeight(sourceNode, targetNode, weight);
+        }
+      } else {
+        this.linkEdge(sourceNode, targetNode);
+        if (!this.hasEdge(targetNode, sourceNode)) {
+          this.linkEdge(targetNode, sourceNode);
+        }
+        if (weight !== undefined) {
+          this.storeEdgeWeight(sourceNode, targetNode, weight);
+        }
+        this.emit({
+          type: "edgeAdded",
+          source: sourceNode,
+          target: targetNode,
+          weight: this.getEdgeWeight(sourceNode, targetNode),
+        });
+      }
+      if (data !== undefined) {
+        this.setEdgeData(sourceNode, targetNode, data);
+      }
 
-    if (weight !== undefined) {
-      this.setEdgeWeight(sourceNode, targetNode, weight);
-      this.setEdgeWeight(targetNode, sourceNode, weight);
-    }
+      return this;
+    });
+  }
 
-    return this;
+  // Stores the weight of the edge in both directions.
+  protected storeEdgeWeight(
+    sourceNode: NodeId,
+    targetNode: NodeId,
+    weight: EdgeWeight
+  ) {
+    this._edgeWeights.set(sourceNode, targetNode, weight);
+    this._edgeWeights.set(targetNode, sourceNode, weight);
+  }
+
+  // Stores the data payload of the edge in both directions.
+  protected storeEdgeData(
+    sourceNode: NodeId,
+    targetNode: NodeId,
+    data: E | undefined
+  ) {
+    super.storeEdgeData(sourceNode, targetNode, data);
+    super.storeEdgeData(targetNode, sourceNode, data);
   }
 
   removeEdge(sourceNode: NodeId, targetNode: NodeId) {
-    if (this._edges.get(sourceNode)) {
-      this._edges.set(
-        sourceNode,
-        this.adjacent(sourceNode).filter((targetNodes) => {
-          return targetNodes !== targetNode;
-        })
-      );
+    if (this.hasEdge(sourceNode, targetNode)) {
+      const event = this.edgeRemovedEvent(sourceNode, targetNode);
+      this.unlinkEdge(sourceNode, targetNode);
+      this.unlinkEdge(targetNode, sourceNode);
+      this.emit(event);
     }
 
-    if (this._edges.get(targetNode)) {
-      this._edges.set(
-        targetNode,
-        this.adjacent(targetNode).filter((sourceNodes) => {
-          return sourceNodes !== sourceNode;
-        })
-      );
+    return this;
+  }
+
+  // Builds one removal event per undirected edge.
+  protected edgeRemovalEvents(): GraphEvent<N, E>[] {
+    const events: GraphEvent<N, E>[] = [];
+    const visited = new Set<NodeId>();
+    this._edges.forEach((targetNodes, sourceNode) => {
+      targetNodes.forEach((targetNode) => {
+        if (!visited.has(targetNode)) {
+          events.push(this.edgeRemovedEvent(sourceNode, targetNode));
+        }
+      });
+      visited.add(sourceNode);
+    });
+    return events;
+  }
+
+  // Generates every undirected edge once, from the node that was added
+  // first, or as a self-loop.
+  *links(): IterableIterator<Serialized<N, E>["links"][number]> {
+    const visited = new Set<NodeId>();
+    for (const [source, targets] of this._edges) {
+      visited.add(source);
+      for (const target of targets) {
+        if (source === target || !visited.has(target)) {
+          yield this.link(source, target);
+        }
+      }
     }
+  }
 
-    return this;
+  // Kruskal's Minimum Spanning Forest Algorithm.
+  // Cormen et al. "Introduction to Algorithms" 3rd Ed. p. 631
+  // Returns a graph with all nodes and, for every connected component, a
+  // spanning tree of minimum total weight. Costs O(E log E).
+  kruskal(): SpanningForest<N, E> {
+    const forest = this.cloneEmpty();
+    const components = new UnionFind<NodeId>();
+    const edges: [NodeId, NodeId][] = [];
+
+    this.nodes.forEach((node) => {
+      forest.addNode(node, this._nodeData.get(node));
+      components.add(node);
+    });
+    this._edges.forEach((targetNodes, sourceNode) => {
+      targetNodes.forEach((targetNode) => {
+        edges.push([sourceNode, targetNode]);
+      });
+    });
+
+    // Array.prototype.sort is stable, so equal weights keep insertion order.
+    edges.sort(
+      ([u1, v1], [u2, v2]) =>
+        this.getEdgeWeight(u1, v1) - this.getEdgeWeight(u2, v2)
+    );
+
+    let weight = 0;
+    edges.forEach(([u, v]) => {
+      if (components.union(u, v)) {
+        this.copyEdgeTo(forest, u, v);
+        weight += this.getEdgeWeight(u, v);
+      }
+    });
+
+    return { graph: forest, weight };
+  }
+
+  // Prim's Minimum Spanning Forest Algorithm.
+  // Cormen et al. "Introduction to Algorithms" 3rd Ed. p. 634
+  // Grows a tree from the earliest added node of every connected component
+  // and returns the same total weight as `kruskal`. Costs O(E log V).
+  prim(): SpanningForest<N, E> {
+    const forest = this.cloneEmpty();
+    const visited = new Set<NodeId>();
+    const q = new PriorityQueue<[NodeId, NodeId]>();
+    let weight = 0;
+
+    const visit = (node: NodeId) => {
+      visited.add(node);
+      this.adjacent(node).forEach((v) => {
+        if (!visited.has(v)) {
+          q.push([node, v], this.getEdgeWeight(node, v));
+        }
+      });
+    };
+
+    this.nodes.forEach((node) => {
+      forest.addNode(node, this._nodeData.get(node));
+    });
+    this.nodes.forEach((root) => {
+      if (visited.has(root)) return;
+
+      visit(root);
+      while (!q.isEmpty()) {
+        const [u, v] = q.pop() as [NodeId, NodeId];
+        if (visited.has(v)) continue;
+        this.copyEdgeTo(forest, u, v);
+        weight += this.getEdgeWeight(u, v);
+        visit(v);
+      }
+    });
+
+    return { graph: forest, weight };
   }
 
   // Find all graph components and return their groupings
@@ -523,3 +2728,434 @@ export class UndirectedGraph extends Graph {
     return componentGroups;
   }
 }
+
+// A directed graph that may hold several parallel edges between the same
+// pair of nodes. Every edge has its own id, weight and data payload.
+// Algorithms see one edge per ordered pair of nodes: it exists as long as any
+// parallel edge exists, and its weight and data payload are those of the
+// lightest parallel edge, so shortest path algorithms take the cheapest one.
+export class MultiGraph<N = unknown, E = unknown> extends Graph<N, E> {
+  // The edges of the graph.
+  // Keys are edge ids.
+  // Values are edges, in insertion order.
+  protected _multiEdges: Map<EdgeId, MultiEdge<E>> = new Map();
+
+  // The ids of parallel edges.
+  // Keys are edges.
+  // Values are edge id arrays, in insertion order.
+  protected _parallelEdges: EdgeMap<NodeId, EdgeId[]> = new EdgeMap();
+
+  // The next candidate for a generated edge id.
+  protected _nextEdgeId = 0;
+
+  constructor(serialized?: Serialized<N, E>) {
+    // The fields above are only initialized once the base constructor
+    // returns, so the base constructor must not deserialize.
+    super();
+    if (serialized) {
+      this.deserialize(serialized);
+    }
+  }
+
+  // Adds a new edge from node u to node v, even if there already are edges
+  // between them. Use `createEdge` to get the id of the new edge.
+  addEdge(
+    sourceNode: NodeId,
+    targetNode: NodeId,
+    weight?: EdgeWeight,
+    data?: E
+  ) {
+    this.createEdge(sourceNode, targetNode, weight, data);
+    return this;
+  }
+
+  // Adds a new edge from node u to node v and returns its id.
+  // Implicitly adds the nodes if they were not already added.
+  // Ids are generated unless given. Throws if the given id is already in use.
+  createEdge(
+    sourceNode: NodeId,
+    targetNode: NodeId,
+    weight?: EdgeWeight,
+    data?: E,
+    id?: EdgeId
+  ): EdgeId {
+    if (id === undefined) {
+      do {
+        id = this._nextEdgeId++;
+      } while (this._multiEdges.has(id));
+    } else if (this._multiEdges.has(id)) {
+      throw new Error("Edge id is already in use: " + id);
+    }
+
+    const edge: MultiEdge<E> = { id, source: sourceNode, target: targetNode };
+    if (weight !== undefined) {
+      edge.weight = weight;
+    }
+
+    return this.batch(() => {
+      this.addNode(sourceNode);
+      this.addNode(targetNode);
+      if (!this.hasEdge(sourceNode, targetNode)) {
+        this.linkEdge(sourceNode, targetNode);
+      }
+
+      this._multiEdges.set(edge.id, edge);
+      const ids = this._parallelEdges.get(sourceNode, targetNode);
+      if (ids) {
+        ids.push(edge.id);
+      } else {
+        this._parallelEdges.set(sourceNode, targetNode, [edge.id]);
+      }
+
+      this.emit({
+        type: "edgeAdded",
+        source: sourceNode,
+        target: targetNode,
+        weight: weight ?? 1,
+        id: edge.id,
+      });
+      if (data !== undefined) {
+        this.changeEdgeDataById(edge.id, data);
+      }
+      return edge.id;
+    });
+  }
+
+  // Gets a copy of the edge with the given id.
+  // Returns undefined if there is no such edge.
+  getEdge(id: EdgeId): MultiEdge<E> | undefined {
+    const edge = this._multiEdges.get(id);
+    return edge && { ...edge };
+  }
+
+  // Returns true if there is an edge with the given id.
+  hasEdgeId(id: EdgeId) {
+    return this._multiEdges.has(id);
+  }
+
+  // Gets copies of all edges, in insertion order.
+  edgeList(): MultiEdge<E>[] {
+    return [...this._multiEdges.values()].map((edge) => ({ ...edge }));
+  }
+
+  // Gets copies of the parallel edges from node u to node v,
+  // in insertion order.
+  edgesBetween(sourceNode: NodeId, targetNode: NodeId): MultiEdge<E>[] {
+    return this.parallelEdges(sourceNode, targetNode).map((edge) => ({
+      ...edge,
+    }));
+  }
+
+  // Removes the edge with the given id.
+  // Returns false if there is no such edge.
+  removeEdgeById(id: EdgeId): boolean {
+    const edge = this._multiEdges.get(id);
+    if (!edge) {
+      return false;
+    }
+
+    this._multiEdges.delete(id);
+    const ids = (
+      this._parallelEdges.get(edge.source, edge.target) as EdgeId[]
+    ).filter((other) => other !== id);
+    if (ids.length > 0) {
+      this._parallelEdges.set(edge.source, edge.target, ids);
+    } else {
+      this._parallelEdges.delete(edge.source, edge.target);
+      this.unlinkEdge(edge.source, edge.target);
+    }
+
+    this.emit({
+      type: "edgeRemoved",
+      source: edge.source,
+      target: edge.target,
+      weight: edge.weight ?? 1,
+      data: edge.data,
+      id,
+    });
+    return true;
+  }
+
+  // Removes all parallel edges from node u to node v.
+  removeEdge(sourceNode: NodeId, targetNode: NodeId) {
+    return this.batch(() => {
+      this.parallelEdges(sourceNode, targetNode).forEach((edge) => {
+        this.removeEdgeById(edge.id);
+      });
+      return this;
+    });
+  }
+
+  removeNode(node: NodeId) {
+    return this.batch(() => {
+      // Remove outgoing edges here, the base class would remove them
+      // without their ids.
+      [...this.adjacent(node)].forEach((targetNode) => {
+        this.removeEdge(node, targetNode);
+      });
+      return super.removeNode(node);
+    });
+  }
+
+  // Sets the weight of all parallel edges from node u to node v.
+  // Does nothing if there are no such edges, like `Graph.setEdgeWeight`.
+  setEdgeWeight(sourceNode: NodeId, targetNode: NodeId, weight: EdgeWeight) {
+    return this.batch(() => {
+      this.parallelEdges(sourceNode, targetNode).forEach((edge) => {
+        this.setEdgeWeightById(edge.id, weight);
+      });
+      return this;
+    });
+  }
+
+  // Gets the lowest weight of the parallel edges from node u to node v.
+  // Returns 1 if there are no such edges.
+  getEdgeWeight(sourceNode: NodeId, targetNode: NodeId): EdgeWeight {
+    return this.lightestEdge(sourceNode, targetNode)?.weight ?? 1;
+  }
+
+  // Sets the data payload of all parallel edges from node u to node v.
+  setEdgeData(sourceNode: NodeId, targetNode: NodeId, data: E) {
+    return this.batch(() => {
+      this.parallelEdges(sourceNode, targetNode).forEach((edge) => {
+        this.changeEdgeDataById(edge.id, data);
+      });
+      return this;
+    });
+  }
+
+  // Gets the data payload of the lightest edge from node u to node v.
+  getEdgeData(sourceNode: NodeId, targetNode: NodeId): E | undefined {
+    return this.lightestEdge(sourceNode, targetNode)?.data;
+  }
+
+  // Sets the weight of the edge with the given id.
+  // Throws if there is no such edge.
+  setEdgeWeightById(id: EdgeId, weight: EdgeWeight) {
+    const edge = this.edgeById(id);
+    const previousWeight = edge.weight ?? 1;
+    edge.weight = weight;
+    if (weight !== previousWeight) {
+      this.emit({
+        type: "edgeWeightChanged",
+        source: edge.source,
+        target: edge.target,
+        weight,
+        previousWeight,
+        id,
+      });
+    }
+    return this;
+  }
+
+  // Gets the weight of the edge with the given id.
+  // Returns 1 if no weight was set. Throws if there is no such edge.
+  getEdgeWeightById(id: EdgeId): EdgeWeight {
+    return this.edgeById(id).weight ?? 1;
+  }
+
+  // Sets the data payload of the edge with the given id.
+  // Throws if there is no such edge.
+  setEdgeDataById(id: EdgeId, data: E) {
+    return this.changeEdgeDataById(id, data);
+  }
+
+  // Gets the data payload of the edge with the given id.
+  // Throws if there is no such edge.
+  getEdgeDataById(id: EdgeId): E | undefined {
+    return this.edgeById(id).data;
+  }
+
+  // Serializes every parallel edge as its own link, with its id.
+  serialize(): Serialized<N, E> {
+    return { nodes: super.serialize().nodes, links: [...this.links()] };
+  }
+
+  // Generates every parallel edge as its own link, with its id, in
+  // insertion order.
+  *links(): IterableIterator<Serialized<N, E>["links"][number]> {
+    for (const edge of this._multiEdges.values()) {
+      const link: Serialized<N, E>["links"][number] = {
+        source: edge.source,
+        target: edge.target,
+        weight: edge.weight ?? 1,
+        id: edge.id,
+      };
+      if (edge.data !== undefined) {
+        link.data = edge.data;
+      }
+      yield link;
+    }
+  }
+
+  protected clear() {
+    super.clear();
+    this._multiEdges.clear();
+    this._parallelEdges.clear();
+    this._nextEdgeId = 0;
+  }
+
+  protected edgeRemovalEvents(): GraphEvent<N, E>[] {
+    return [...this._multiEdges.values()].map((edge) => ({
+      type: "edgeRemoved",
+      source: edge.source,
+      target: edge.target,
+      weight: edge.weight ?? 1,
+      data: edge.data,
+      id: edge.id,
+    }));
+  }
+
+  // Deserializes the given serialized graph. Links with an id keep it.
+  deserialize(serialized: Serialized<N, E>, reset = false) {
+    this.batch(() => {
+      if (reset) {
+        this.reset();
+      }
+
+      serialized.nodes.forEach((node) => {
+        this.addNode(node.id, node.data);
+      });
+
+      serialized.links.forEach((link) => {
+        this.createEdge(
+          link.source,
+          link.target,
+          link.weight,
+          link.data,
+          link.id
+        );
+      });
+    });
+  }
+
+  // Copies all parallel edges if the given graph is a multigraph, and the
+  // lightest edge otherwise.
+  protected copyEdgeTo(
+    graph: Graph<N, E>,
+    sourceNode: NodeId,
+    targetNode: NodeId
+  ) {
+    if (graph instanceof MultiGraph) {
+      this.parallelEdges(sourceNode, targetNode).forEach((edge) => {
+        graph.createEdge(
+          edge.source,
+          edge.target,
+          edge.weight,
+          edge.data,
+          edge.id
+        );
+      });
+    } else {
+      const edge = this.lightestEdge(sourceNode, targetNode);
+      graph.addEdge(sourceNode, targetNode, edge?.weight, edge?.data);
+    }
+  }
+
+  // Gets the parallel edges from node u to node v, in insertion order.
+  protected parallelEdges(
+    sourceNode: NodeId,
+    targetNode: NodeId
+  ): MultiEdge<E>[] {
+    const ids = this._parallelEdges.get(sourceNode, targetNode);
+    return (ids ?? []).map((id) => this._multiEdges.get(id) as MultiEdge<E>);
+  }
+
+  // Gets the parallel edge from node u to node v with the lowest weight.
+  // Ties go to the earliest added edge.
+  protected lightestEdge(
+    sourceNode: NodeId,
+    targetNode: NodeId
+  ): MultiEdge<E> | undefined {
+    let lightest: MultiEdge<E> | undefined;
+    this.parallelEdges(sourceNode, targetNode).forEach((edge) => {
+      if (!lightest || (edge.weight ?? 1) < (lightest.weight ?? 1)) {
+        lightest = edge;
+      }
+    });
+    return lightest;
+  }
+
+  // Sets or, if data is undefined, deletes the data payload of the edge
+  // with the given id. Throws if there is no such edge.
+  protected changeEdgeDataById(id: EdgeId, data: E | undefined) {
+    const edge = this.edgeById(id);
+    const previousData = edge.data;
+    if (data !== previousData) {
+      if (data === undefined) {
+        delete edge.data;
+      } else {
+        edge.data = data;
+      }
+      this.emit({
+        type: "edgeDataChanged",
+        source: edge.source,
+        target: edge.target,
+        data,
+        previousData,
+        id,
+      });
+    }
+    return this;
+  }
+
+  // Applies edge events by edge id.
+  protected applyEvent(event: GraphEvent<N, E>) {
+    switch (event.type) {
+      case "edgeAdded":
+        this.createEdge(
+          event.source,
+          event.target,
+          event.weight,
+          undefined,
+          event.id
+        );
+        break;
+      case "edgeRemoved":
+        this.removeEdgeById(event.id as EdgeId);
+        break;
+      case "edgeWeightChanged":
+        this.setEdgeWeightById(event.id as EdgeId, event.weight);
+        break;
+      case "edgeDataChanged":
+        this.changeEdgeDataById(event.id as EdgeId, event.data);
+        break;
+      default:
+        super.applyEvent(event);
+    }
+  }
+
+  // Reverts edge events by edge id, restoring removed edges with their ids.
+  protected revertEvent(event: GraphEvent<N, E>) {
+    switch (event.type) {
+      case "edgeAdded":
+        this.removeEdgeById(event.id as EdgeId);
+        break;
+      case "edgeRemoved":
+        this.createEdge(
+          event.source,
+          event.target,
+          event.weight,
+          event.data,
+          event.id
+        );
+        break;
+      case "edgeWeightChanged":
+        this.setEdgeWeightById(event.id as EdgeId, event.previousWeight);
+        break;
+      case "edgeDataChanged":
+        this.changeEdgeDataById(event.id as EdgeId, event.previousData);
+        break;
+      default:
+        super.revertEvent(event);
+    }
+  }
+
+  protected edgeById(id: EdgeId): MultiEdge<E> {
+    const edge = this._multiEdges.get(id);
+    if (!edge) {
+      throw new Error("Edge is not in the graph: " + id);
+    }
+    return edge;
+  }
+}
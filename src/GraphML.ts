@@ -0,0 +1,579 @@
+import { EdgeMap } from "./EdgeMap";
+import {
+  EdgeId,
+  EdgeWeight,
+  Graph,
+  MultiGraph,
+  NodeId,
+  Serialized,
+  UndirectedGraph,
+} from "./Graph";
+
+// GraphML import and export, as read and written by yEd and Gephi.
+// http://graphml.graphdrawing.org/specification.html
+// Directed graphs are written with edgedefault="directed", UndirectedGraphs
+// with edgedefault="undirected", and parsing picks the class the same way.
+// Edge weights are stored in an edge key named "weight". Data payloads are
+// stored as one key per attribute.
+
+// The value of a GraphML attribute.
+export type GraphMLValue = string | number | boolean;
+
+export type GraphMLAttributes = Record<string, GraphMLValue>;
+
+export interface GraphMLWriteOptions<N, E> {
+  // Converts node data payloads to attributes.
+  // Defaults to `defaultAttributes`.
+  nodeAttributes?: (data: N, node: NodeId) => GraphMLAttributes;
+  // Converts edge data payloads to attributes. An attribute named "weight"
+  // is dropped, the weight key holds the edge weight.
+  // Defaults to `defaultAttributes`.
+  edgeAttributes?: (
+    data: E,
+    sourceNode: NodeId,
+    targetNode: NodeId
+  ) => GraphMLAttributes;
+}
+
+export interface GraphMLParseOptions<N, E> {
+  // The graph to add nodes and edges to, like a MultiGraph. Must be an
+  // UndirectedGraph exactly if the document has edgedefault="undirected".
+  // Defaults to a new Graph or UndirectedGraph.
+  graph?: Graph<N, E>;
+  // Converts GraphML node ids, which are strings, to node ids.
+  // Defaults to keeping the strings.
+  nodeId?: (id: string) => NodeId;
+  // Converts GraphML edge ids, which are strings, to the edge ids of
+  // multigraphs. Defaults to keeping the strings.
+  edgeId?: (id: string) => EdgeId;
+  // Converts the attributes of a node to its data payload. Only called for
+  // nodes with at least one attribute. Defaults to the attributes object.
+  nodeData?: (attributes: GraphMLAttributes, node: NodeId) => N;
+  // Converts the attributes of an edge, without its weight, to its data
+  // payload. Only called for edges with at least one attribute.
+  // Defaults to the attributes object.
+  edgeData?: (
+    attributes: GraphMLAttributes,
+    sourceNode: NodeId,
+    targetNode: NodeId
+  ) => E;
+}
+
+// Thrown when parsing malformed GraphML.
+export class GraphMLError extends Error {
+  constructor(message: string) {
+    super(message);
+    Object.setPrototypeOf(this, GraphMLError.prototype);
+  }
+}
+
+// Converts a data payload to attributes. Objects contribute their own
+// string, number and boolean properties, other values are stored in an
+// attribute named "data".
+export function defaultAttributes(data: unknown): GraphMLAttributes {
+  if (isValue(data)) {
+    return { data };
+  }
+  const attributes: GraphMLAttributes = {};
+  if (typeof data === "object" && data !== null) {
+    Object.entries(data).forEach(([name, value]) => {
+      if (isValue(value)) {
+        attributes[name] = value;
+      }
+    });
+  }
+  return attributes;
+}
+
+// Writes the graph as a GraphML document.
+// Undirected edges are written once. Multigraphs write every parallel edge
+// with its id.
+export function toGraphML<N, E>(
+  graph: Graph<N, E>,
+  options: GraphMLWriteOptions<N, E> = {}
+): string {
+  const nodeAttributes = options.nodeAttributes ?? defaultAttributes;
+  const edgeAttributes = options.edgeAttributes ?? defaultAttributes;
+  const undirected = graph instanceof UndirectedGraph;
+
+  const nodes = graph.nodes.map((id) => {
+    const data = graph.getNodeData(id);
+    return {
+      id,
+      attributes: data === undefined ? {} : nodeAttributes(data, id),
+    };
+  });
+
+  const edges: {
+    link: Serialized<N, E>["links"][number];
+    attributes: GraphMLAttributes;
+  }[] = [];
+  for (const link of graph.links()) {
+    const attributes =
+      link.data === undefined
+        ? {}
+        : { ...edgeAttributes(link.data, link.source, link.target) };
+    delete attributes[WEIGHT];
+    edges.push({ link, attributes });
+  }
+
+  const nodeKeys = keysFor(
+    "n",
+    nodes.map((node) => node.attributes)
+  );
+  const edgeKeys = keysFor(
+    "e",
+    edges.map((edge) => edge.attributes)
+  );
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns"' +
+      ' xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"' +
+      ' xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns' +
+      ' http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+  ];
+  nodeKeys.forEach((key, name) => {
+    lines.push(keyElement(key.id, "node", name, key.type));
+  });
+  lines.push(keyElement(WEIGHT, "edge", WEIGHT, "double"));
+  edgeKeys.forEach((key, name) => {
+    lines.push(keyElement(key.id, "edge", name, key.type));
+  });
+
+  lines.push(
+    `  <graph id="G" edgedefault="${undirected ? "undirected" : "directed"}">`
+  );
+  nodes.forEach((node) => {
+    const data = dataElements(node.attributes, nodeKeys);
+    const open = `    <node id="${escape(String(node.id))}"`;
+    if (data.length === 0) {
+      lines.push(open + "/>");
+    } else {
+      lines.push(open + ">", ...data, "    </node>");
+    }
+  });
+  edges.forEach(({ link, attributes }) => {
+    const id = link.id === undefined ? "" : ` id="${escape(String(link.id))}"`;
+    lines.push(
+      `    <edge${id} source="${escape(String(link.source))}"` +
+        ` target="${escape(String(link.target))}">`,
+      `      <data key="${WEIGHT}">${link.weight ?? 1}</data>`,
+      ...dataElements(attributes, edgeKeys),
+      "    </edge>"
+    );
+  });
+  lines.push("  </graph>", "</graphml>");
+
+  return lines.join("\n") + "\n";
+}
+
+// Parses a GraphML document. Returns an UndirectedGraph if the graph has
+// edgedefault="undirected", and a Graph otherwise, unless a graph is given.
+// Edges marked with directed="false" in directed graphs are added in both
+// directions. Parallel edges keep their ids if the graph is a MultiGraph,
+// and are rejected otherwise, rather than merged, also when they parallel an
+// edge the given graph already has. Reverse edges of directed="false" edges
+// get the lowest numeric ids that no edge of the document or graph uses.
+// Only the first graph is read. Nested graphs, hyperedges and data with
+// element content, like yEd's graphics, are skipped.
+// Throws a GraphMLError if the document is malformed.
+export function parseGraphML<N = GraphMLAttributes, E = GraphMLAttributes>(
+  text: string,
+  options: GraphMLParseOptions<N, E> = {}
+): Graph<N, E> {
+  const nodeId = options.nodeId ?? ((id: string) => id);
+  const edgeId = options.edgeId ?? ((id: string) => id);
+  const nodeData =
+    options.nodeData ?? ((attributes: GraphMLAttributes) => attributes as N);
+  const edgeData =
+    options.edgeData ?? ((attributes: GraphMLAttributes) => attributes as E);
+
+  const root = parseXml(text);
+  if (localName(root.name) !== "graphml") {
+    throw new GraphMLError(`Expected a graphml element, found: ${root.name}`);
+  }
+
+  const keys = new Map<string, KeyDefinition>();
+  root.children
+    .filter((child) => localName(child.name) === "key")
+    .forEach((child) => {
+      const id = required(child, "id");
+      const type = child.attributes.get("attr.type") ?? "string";
+      const defaultElement = child.children.find(
+        (element) => localName(element.name) === "default"
+      );
+      keys.set(id, {
+        for: child.attributes.get("for") ?? "all",
+        name: child.attributes.get("attr.name") ?? id,
+        type,
+        default: defaultElement && toValue(defaultElement.text, type, id),
+      });
+    });
+
+  const graphElement = root.children.find(
+    (child) => localName(child.name) === "graph"
+  );
+  if (!graphElement) {
+    throw new GraphMLError("No graph element found");
+  }
+  const edgeDefault = graphElement.attributes.get("edgedefault");
+  const undirected = edgeDefault === "undirected";
+  const graph =
+    options.graph ??
+    (undirected ? new UndirectedGraph<N, E>() : new Graph<N, E>());
+  if (graph instanceof UndirectedGraph !== undirected) {
+    throw new GraphMLError(
+      `Cannot read edgedefault="${edgeDefault}" into ` +
+        (undirected ? "a directed graph" : "an UndirectedGraph")
+    );
+  }
+  const multigraph = graph instanceof MultiGraph ? graph : undefined;
+
+  const serialized: Serialized<N, E> = { nodes: [], links: [] };
+  const edges = new EdgeMap<NodeId, true>();
+  const ids = new Set<EdgeId>();
+  // Reverse edges of directed="false" edges, which get ids once all
+  // explicit ids are known.
+  const reverseLinks: Serialized<N, E>["links"][number][] = [];
+  const addLink = (link: Serialized<N, E>["links"][number]) => {
+    if (
+      !multigraph &&
+      (edges.has(link.source, link.target) ||
+        graph.hasEdge(link.source, link.target))
+    ) {
+      throw new GraphMLError(
+        `Parallel edges from ${link.source} to ${link.target} need a MultiGraph`
+      );
+    }
+    if (link.id !== undefined) {
+      if (ids.has(link.id) || multigraph?.hasEdgeId(link.id)) {
+        throw new GraphMLError(`Edge id is already in use: ${link.id}`);
+      }
+      ids.add(link.id);
+    }
+    edges.set(link.source, link.target, true);
+    if (undirected) {
+      edges.set(link.target, link.source, true);
+    }
+    serialized.links.push(link);
+  };
+  graphElement.children.forEach((child) => {
+    const kind = localName(child.name);
+    if (kind === "node") {
+      const id = nodeId(required(child, "id"));
+      const attributes = readData(child, "node", keys);
+      if (Object.keys(attributes).length > 0) {
+        serialized.nodes.push({ id, data: nodeData(attributes, id) });
+      } else {
+        serialized.nodes.push({ id });
+      }
+    } else if (kind === "edge") {
+      const source = nodeId(required(child, "source"));
+      const target = nodeId(required(child, "target"));
+      const attributes = readData(child, "edge", keys);
+      const link: Serialized<N, E>["links"][number] = { source, target };
+      const id = child.attributes.get("id");
+      if (multigraph && id !== undefined) {
+        link.id = edgeId(id);
+      }
+      if (WEIGHT in attributes) {
+        link.weight = toWeight(attributes[WEIGHT]);
+        delete attributes[WEIGHT];
+      }
+      if (Object.keys(attributes).length > 0) {
+        link.data = edgeData(attributes, source, target);
+      }
+      addLink(link);
+      const bidirectional = child.attributes.get("directed") === "false";
+      if (!undirected && bidirectional && source !== target) {
+        const reverse = { ...link, source: target, target: source };
+        delete reverse.id;
+        addLink(reverse);
+        reverseLinks.push(reverse);
+      }
+    }
+  });
+
+  if (multigraph) {
+    let nextId = 0;
+    reverseLinks.forEach((link) => {
+      while (ids.has(nextId) || multigraph.hasEdgeId(nextId)) {
+        nextId++;
+      }
+      link.id = nextId++;
+    });
+  }
+
+  graph.deserialize(serialized);
+  return graph;
+}
+
+// The name of the edge key holding edge weights.
+const WEIGHT = "weight";
+
+interface KeyDefinition {
+  // The kind of element the key applies to, or "all".
+  for: string;
+  name: string;
+  type: string;
+  default?: GraphMLValue;
+}
+
+function isValue(value: unknown): value is GraphMLValue {
+  return (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean"
+  );
+}
+
+// Declares a key per attribute name. Attributes whose values have
+// different types across elements are declared as strings.
+function keysFor(prefix: string, attributes: GraphMLAttributes[]) {
+  const keys = new Map<string, { id: string; type: string }>();
+  attributes.forEach((element) => {
+    Object.entries(element).forEach(([name, value]) => {
+      const type = typeOf(value);
+      const key = keys.get(name);
+      if (!key) {
+        keys.set(name, { id: prefix + keys.size, type });
+      } else if (key.type !== type) {
+        key.type = "string";
+      }
+    });
+  });
+  return keys;
+}
+
+function typeOf(value: GraphMLValue) {
+  if (typeof value === "number") {
+    return "double";
+  }
+  return typeof value === "boolean" ? "boolean" : "string";
+}
+
+function keyElement(id: string, kind: string, name: string, type: string) {
+  return (
+    `  <key id="${escape(id)}" for="${kind}"` +
+    ` attr.name="${escape(name)}" attr.type="${type}"/>`
+  );
+}
+
+function dataElements(
+  attributes: GraphMLAttributes,
+  keys: Map<string, { id: string }>
+) {
+  return Object.entries(attributes).map(
+    ([name, value]) =>
+      `      <data key="${escape((keys.get(name) as { id: string }).id)}">` +
+      `${escape(String(value))}</data>`
+  );
+}
+
+// Reads the data children of a node or edge, starting from the defaults of
+// the keys for that kind of element.
+function readData(
+  element: XmlElement,
+  kind: string,
+  keys: Map<string, KeyDefinition>
+): GraphMLAttributes {
+  const attributes: GraphMLAttributes = {};
+  keys.forEach((key) => {
+    if (key.default !== undefined && (key.for === kind || key.for === "all")) {
+      attributes[key.name] = key.default;
+    }
+  });
+  element.children.forEach((child) => {
+    if (localName(child.name) !== "data" || child.children.length > 0) {
+      return;
+    }
+    const id = required(child, "key");
+    const key = keys.get(id);
+    attributes[key?.name ?? id] = toValue(
+      child.text,
+      key?.type ?? "string",
+      id
+    );
+  });
+  return attributes;
+}
+
+function toValue(text: string, type: string, key: string): GraphMLValue {
+  switch (type) {
+    case "boolean":
+      return text.trim().toLowerCase() === "true";
+    case "int":
+    case "long":
+    case "float":
+    case "double": {
+      const value = Number(text.trim());
+      if (text.trim() === "" || Number.isNaN(value)) {
+        throw new GraphMLError(`Invalid ${type} value for key ${key}: ${text}`);
+      }
+      return value;
+    }
+    default:
+      return text;
+  }
+}
+
+function toWeight(value: GraphMLValue): EdgeWeight {
+  const weight = typeof value === "number" ? value : Number(value);
+  if (typeof value === "boolean" || Number.isNaN(weight)) {
+    throw new GraphMLError(`Invalid edge weight: ${value}`);
+  }
+  return weight;
+}
+
+function required(element: XmlElement, attribute: string) {
+  const value = element.attributes.get(attribute);
+  if (value === undefined) {
+    throw new GraphMLError(
+      `Missing ${attribute} attribute on ${element.name} element`
+    );
+  }
+  return value;
+}
+
+// Escapes text for use in XML content and attribute values.
+function escape(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// A minimal XML reader. Namespaces are not resolved, elements are matched
+// by their local name.
+
+interface XmlElement {
+  name: string;
+  attributes: Map<string, string>;
+  children: XmlElement[];
+  // The text content, without the text of child elements.
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+};
+
+function localName(name: string) {
+  return name.slice(name.indexOf(":") + 1);
+}
+
+function decode(text: string) {
+  return text.replace(
+    /&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g,
+    (entity, name: string) => {
+      if (name.startsWith("#")) {
+        const codePoint = name.startsWith("#x")
+          ? parseInt(name.slice(2), 16)
+          : parseInt(name.slice(1), 10);
+        if (!(codePoint <= 0x10ffff)) {
+          throw new GraphMLError(`Invalid character reference: ${entity}`);
+        }
+        return String.fromCodePoint(codePoint);
+      }
+      return ENTITIES[name] ?? entity;
+    }
+  );
+}
+
+// Parses the document and returns its root element.
+function parseXml(text: string): XmlElement {
+  const document: XmlElement = {
+    name: "",
+    attributes: new Map(),
+    children: [],
+    text: "",
+  };
+  const stack = [document];
+  const tagName = /[^\s/>]+/y;
+  const attribute = /\s+([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/y;
+  const tagEnd = /\s*(\/?)>/y;
+
+  // Returns the index after the given token.
+  const skipTo = (token: string, from: number) => {
+    const index = text.indexOf(token, from);
+    if (index < 0) {
+      throw new GraphMLError(`Unterminated markup at offset ${from}`);
+    }
+    return index + token.length;
+  };
+
+  let index = 0;
+  while (index < text.length) {
+    const current = stack[stack.length - 1];
+    const open = text.indexOf("<", index);
+    const textEnd = open < 0 ? text.length : open;
+    if (textEnd > index) {
+      current.text += decode(text.slice(index, textEnd));
+    }
+    if (open < 0) {
+      break;
+    }
+
+    if (text.startsWith("<!--", open)) {
+      index = skipTo("-->", open + 4);
+    } else if (text.startsWith("<![CDATA[", open)) {
+      index = skipTo("]]>", open + 9);
+      current.text += text.slice(open + 9, index - 3);
+    } else if (text.startsWith("<?", open) || text.startsWith("<!", open)) {
+      index = skipTo(">", open);
+    } else if (text.startsWith("</", open)) {
+      index = skipTo(">", open);
+      const name = text.slice(open + 2, index - 1).trim();
+      if (stack.length === 1 || current.name !== name) {
+        throw new GraphMLError(`Unexpected closing tag at offset ${open}`);
+      }
+      stack.pop();
+    } else {
+      tagName.lastIndex = open + 1;
+      const name = tagName.exec(text);
+      if (!name) {
+        throw new GraphMLError(`Malformed tag at offset ${open}`);
+      }
+      const element: XmlElement = {
+        name: name[0],
+        attributes: new Map(),
+        children: [],
+        text: "",
+      };
+      index = tagName.lastIndex;
+      attribute.lastIndex = index;
+      for (
+        let match = attribute.exec(text);
+        match;
+        match = attribute.exec(text)
+      ) {
+        element.attributes.set(match[1], decode(match[2] ?? match[3]));
+        index = attribute.lastIndex;
+      }
+      tagEnd.lastIndex = index;
+      const end = tagEnd.exec(text);
+      if (!end) {
+        throw new GraphMLError(`Malformed tag at offset ${open}`);
+      }
+      index = tagEnd.lastIndex;
+      current.children.push(element);
+      if (end[1] !== "/") {
+        stack.push(element);
+      }
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new GraphMLError(`Unclosed element: ${stack[stack.length - 1].name}`);
+  }
+  if (document.children.length !== 1) {
+    throw new GraphMLError("Expected a single root element");
+  }
+  return document.children[0];
+}
@@ -0,0 +1,82 @@
+// A bounded undo/redo stack.
+// Pushing an entry discards the entries that could be redone. Once more than
+// `limit` entries can be undone, the oldest entries are dropped.
+export class History<T> {
+  // The entries that can be undone, oldest first.
+  protected _undo: T[] = [];
+
+  // The entries that can be redone, most recently undone last.
+  protected _redo: T[] = [];
+
+  // The maximum number of entries that can be undone.
+  protected _limit: number;
+
+  constructor(limit = 100) {
+    this._limit = limit;
+  }
+
+  // Gets the maximum number of entries that can be undone.
+  get limit() {
+    return this._limit;
+  }
+
+  // Sets the maximum number of entries that can be undone.
+  // Drops the oldest entries if there are more.
+  set limit(limit: number) {
+    this._limit = limit;
+    if (this._undo.length > limit) {
+      this._undo.splice(0, this._undo.length - limit);
+    }
+    if (limit === 0) {
+      this._redo = [];
+    }
+  }
+
+  // Returns true if there is an entry to undo.
+  get canUndo() {
+    return this._undo.length > 0;
+  }
+
+  // Returns true if there is an entry to redo.
+  get canRedo() {
+    return this._redo.length > 0;
+  }
+
+  // Records a new entry. Does nothing if the limit is 0.
+  push(entry: T) {
+    if (this._limit > 0) {
+      this._undo.push(entry);
+      if (this._undo.length > this._limit) {
+        this._undo.shift();
+      }
+      this._redo = [];
+    }
+    return this;
+  }
+
+  // Moves the latest entry to the redo stack and returns it.
+  // Returns undefined if there is nothing to undo.
+  undo(): T | undefined {
+    const entry = this._undo.pop();
+    if (entry !== undefined) {
+      this._redo.push(entry);
+    }
+    return entry;
+  }
+
+  // Moves the most recently undone entry back and returns it.
+  // Returns undefined if there is nothing to redo.
+  redo(): T | undefined {
+    const entry = this._redo.pop();
+    if (entry !== undefined) {
+      this._undo.push(entry);
+    }
+    return entry;
+  }
+
+  // Discards all entries.
+  clear() {
+    this._undo = [];
+    this._redo = [];
+  }
+}
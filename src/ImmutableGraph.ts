@@ -0,0 +1,384 @@
+import {
+  EdgeWeight,
+  Graph,
+  NodeId,
+  Serialized,
+  UndirectedGraph,
+} from "./Graph";
+import { PersistentMap } from "./PersistentMap";
+
+// The state of a node. Entries are never changed, updates replace them.
+interface NodeEntry<N, E> {
+  // The insertion order of the node.
+  order: number;
+  data?: N;
+  // The outgoing edges by target node, in insertion order.
+  out: ReadonlyMap<NodeId, EdgeEntry<E>>;
+  // The source nodes of incoming edges, in insertion order.
+  in: ReadonlySet<NodeId>;
+}
+
+interface EdgeEntry<E> {
+  weight?: EdgeWeight;
+  data?: E;
+}
+
+type NodeMap<N, E> = PersistentMap<NodeId, NodeEntry<N, E>>;
+
+// A graph that cannot be changed. Mutating methods return a new graph that
+// shares all untouched nodes with this one, and return this graph if they
+// change nothing, so unchanged graphs keep their identity.
+// Changing a node or edge costs O(log V + degree). Read accessors return
+// copies. Use `toGraph` to run algorithms.
+export class ImmutableGraph<N = unknown, E = unknown> {
+  // The nodes of the graph.
+  protected _nodes: NodeMap<N, E> = new PersistentMap();
+
+  // The insertion order of the next added node.
+  protected _nextOrder = 0;
+
+  // Whether edges are undirected, i.e. stored in both directions like in
+  // an UndirectedGraph.
+  readonly undirected: boolean;
+
+  constructor(undirected = false) {
+    this.undirected = undirected;
+  }
+
+  // Creates an immutable copy of the graph. Costs O(V log V + E).
+  // Copies of UndirectedGraphs are undirected.
+  static fromGraph<N, E>(graph: Graph<N, E>): ImmutableGraph<N, E> {
+    const immutable = new ImmutableGraph<N, E>(
+      graph instanceof UndirectedGraph
+    );
+    const nodes = graph.nodes;
+    immutable._nodes = new PersistentMap(
+      nodes.map((node, order): [NodeId, NodeEntry<N, E>] => {
+        const entry: NodeEntry<N, E> = {
+          order,
+          out: new Map(
+            graph.adjacent(node).map((target): [NodeId, EdgeEntry<E>] => {
+              const edge: EdgeEntry<E> = {
+                weight: graph.getEdgeWeight(node, target),
+              };
+              const data = graph.getEdgeData(node, target);
+              if (data !== undefined) {
+                edge.data = data;
+              }
+              return [target, edge];
+            })
+          ),
+          in: new Set(graph.inbound(node)),
+        };
+        const data = graph.getNodeData(node);
+        if (data !== undefined) {
+          entry.data = data;
+        }
+        return [node, entry];
+      })
+    );
+    immutable._nextOrder = nodes.length;
+    return immutable;
+  }
+
+  // Creates a mutable copy of the graph, an UndirectedGraph if this graph
+  // is undirected. Costs O(V log V + E).
+  toGraph(): Graph<N, E> {
+    const graph = this.undirected
+      ? new UndirectedGraph<N, E>()
+      : new Graph<N, E>();
+    const nodes = this.entries();
+    nodes.forEach(([node, entry]) => {
+      graph.addNode(node, entry.data);
+    });
+    nodes.forEach(([source, entry]) => {
+      entry.out.forEach((edge, target) => {
+        graph.addEdge(source, target, edge.weight, edge.data);
+      });
+    });
+    return graph;
+  }
+
+  // Gets the nodes in insertion order.
+  get nodes(): NodeId[] {
+    return this.entries().map(([node]) => node);
+  }
+
+  // Gets a copy of the adjacency list.
+  get edges(): Map<NodeId, NodeId[]> {
+    return new Map(
+      this.entries().map(([node, entry]): [NodeId, NodeId[]] => [
+        node,
+        [...entry.out.keys()],
+      ])
+    );
+  }
+
+  // Returns true if the node is in the graph.
+  hasNode(node: NodeId) {
+    return this._nodes.has(node);
+  }
+
+  // Gets a copy of the adjacent node list for the given node.
+  // Returns an empty array for unknown nodes.
+  adjacent(node: NodeId): NodeId[] {
+    return [...(this._nodes.get(node)?.out.keys() ?? [])];
+  }
+
+  // Gets the nodes with an edge towards the given node.
+  inbound(node: NodeId): NodeId[] {
+    return [...(this._nodes.get(node)?.in ?? [])];
+  }
+
+  outbound(node: NodeId): NodeId[] {
+    return this.adjacent(node);
+  }
+
+  // Returns true if there is an edge from node u to node v.
+  hasEdge(sourceNode: NodeId, targetNode: NodeId) {
+    return this._nodes.get(sourceNode)?.out.has(targetNode) ?? false;
+  }
+
+  // Gets the weight of the given edge.
+  // Returns 1 if no weight was set.
+  getEdgeWeight(sourceNode: NodeId, targetNode: NodeId): EdgeWeight {
+    return this.edge(sourceNode, targetNode)?.weight ?? 1;
+  }
+
+  // Gets the data payload of the given node.
+  getNodeData(node: NodeId): N | undefined {
+    return this._nodes.get(node)?.data;
+  }
+
+  // Gets the data payload of the given edge.
+  getEdgeData(sourceNode: NodeId, targetNode: NodeId): E | undefined {
+    return this.edge(sourceNode, targetNode)?.data;
+  }
+
+  // Returns a graph with the node added. If data is given, it replaces the
+  // data payload of the node.
+  addNode(node: NodeId, data?: N): this {
+    const entry = this._nodes.get(node);
+    if (entry) {
+      return data === undefined ? this : this.setNodeData(node, data);
+    }
+
+    const added: NodeEntry<N, E> = {
+      order: this._nextOrder,
+      out: new Map(),
+      in: new Set(),
+    };
+    if (data !== undefined) {
+      added.data = data;
+    }
+    return this.with(this._nodes.set(node, added), this._nextOrder + 1);
+  }
+
+  // Returns a graph without the node and its incoming and outgoing edges.
+  removeNode(node: NodeId): this {
+    const entry = this._nodes.get(node);
+    if (!entry) {
+      return this;
+    }
+
+    let nodes = this._nodes;
+    entry.in.forEach((source) => {
+      if (source !== node) {
+        nodes = unlinkTarget(nodes, source, node);
+      }
+    });
+    entry.out.forEach((edge, target) => {
+      if (target !== node) {
+        nodes = unlinkSource(nodes, node, target);
+      }
+    });
+    return this.with(nodes.delete(node));
+  }
+
+  // Returns a graph with the edge from node u to node v added.
+  // Implicitly adds the nodes. Adding an existing edge again replaces its
+  // weight and data payload if they are given, like `Graph.addEdge`.
+  addEdge(
+    sourceNode: NodeId,
+    targetNode: NodeId,
+    weight?: EdgeWeight,
+    data?: E
+  ): this {
+    const graph = this.addNode(sourceNode).addNode(targetNode);
+    let nodes = link(graph._nodes, sourceNode, targetNode, weight, data);
+    if (this.undirected) {
+      nodes = link(nodes, targetNode, sourceNode, weight, data);
+    }
+    return graph.with(nodes);
+  }
+
+  // Returns a graph without the edge from node u to node v.
+  removeEdge(sourceNode: NodeId, targetNode: NodeId): this {
+    if (!this.hasEdge(sourceNode, targetNode)) {
+      return this;
+    }
+
+    let nodes = unlink(this._nodes, sourceNode, targetNode);
+    if (this.undirected) {
+      nodes = unlink(nodes, targetNode, sourceNode);
+    }
+    return this.with(nodes);
+  }
+
+  // Returns a graph with the data payload of the node replaced.
+  // Returns this graph if the node does not exist.
+  setNodeData(node: NodeId, data: N): this {
+    const entry = this._nodes.get(node);
+    if (!entry || entry.data === data) {
+      return this;
+    }
+    return this.with(this._nodes.set(node, { ...entry, data }));
+  }
+
+  // Returns a graph with the weight of the edge replaced.
+  // Returns this graph if the edge does not exist.
+  setEdgeWeight(
+    sourceNode: NodeId,
+    targetNode: NodeId,
+    weight: EdgeWeight
+  ): this {
+    if (!this.hasEdge(sourceNode, targetNode)) {
+      return this;
+    }
+    return this.addEdge(sourceNode, targetNode, weight);
+  }
+
+  // Returns a graph with the data payload of the edge replaced.
+  // Returns this graph if the edge does not exist.
+  setEdgeData(sourceNode: NodeId, targetNode: NodeId, data: E): this {
+    if (!this.hasEdge(sourceNode, targetNode)) {
+      return this;
+    }
+    return this.addEdge(sourceNode, targetNode, undefined, data);
+  }
+
+  // Serializes the graph in the format of `Graph.serialize`.
+  serialize(): Serialized<N, E> {
+    const serialized: Serialized<N, E> = { nodes: [], links: [] };
+    const nodes = this.entries();
+    nodes.forEach(([node, { data }]) => {
+      serialized.nodes.push(
+        data === undefined ? { id: node } : { id: node, data }
+      );
+    });
+    nodes.forEach(([source, entry]) => {
+      entry.out.forEach((edge, target) => {
+        const link: Serialized<N, E>["links"][number] = {
+          source,
+          target,
+          weight: edge.weight ?? 1,
+        };
+        if (edge.data !== undefined) {
+          link.data = edge.data;
+        }
+        serialized.links.push(link);
+      });
+    });
+    return serialized;
+  }
+
+  // Gets the nodes with their entries, in insertion order.
+  protected entries(): [NodeId, NodeEntry<N, E>][] {
+    return [...this._nodes.entries()].sort(([, a], [, b]) => a.order - b.order);
+  }
+
+  protected edge(
+    sourceNode: NodeId,
+    targetNode: NodeId
+  ): EdgeEntry<E> | undefined {
+    return this._nodes.get(sourceNode)?.out.get(targetNode);
+  }
+
+  // Creates a graph with the given nodes, or returns this graph if the
+  // nodes did not change.
+  protected with(nodes: NodeMap<N, E>, nextOrder = this._nextOrder): this {
+    if (nodes === this._nodes) {
+      return this;
+    }
+    const graph = new (this.constructor as new (undirected: boolean) => this)(
+      this.undirected
+    );
+    graph._nodes = nodes;
+    graph._nextOrder = nextOrder;
+    return graph;
+  }
+}
+
+// Adds or updates the edge from node u to node v. Both nodes must exist.
+function link<N, E>(
+  nodes: NodeMap<N, E>,
+  sourceNode: NodeId,
+  targetNode: NodeId,
+  weight: EdgeWeight | undefined,
+  data: E | undefined
+): NodeMap<N, E> {
+  const source = nodes.get(sourceNode) as NodeEntry<N, E>;
+  const existing = source.out.get(targetNode);
+  const edge: EdgeEntry<E> = { ...existing };
+  if (weight !== undefined) {
+    edge.weight = weight;
+  }
+  if (data !== undefined) {
+    edge.data = data;
+  }
+  if (
+    existing &&
+    edge.weight === existing.weight &&
+    edge.data === existing.data
+  ) {
+    return nodes;
+  }
+
+  const out = new Map(source.out).set(targetNode, edge);
+  nodes = nodes.set(sourceNode, { ...source, out });
+  if (!existing) {
+    const target = nodes.get(targetNode) as NodeEntry<N, E>;
+    nodes = nodes.set(targetNode, {
+      ...target,
+      in: new Set(target.in).add(sourceNode),
+    });
+  }
+  return nodes;
+}
+
+// Removes the edge from node u to node v, which must exist.
+function unlink<N, E>(
+  nodes: NodeMap<N, E>,
+  sourceNode: NodeId,
+  targetNode: NodeId
+): NodeMap<N, E> {
+  return unlinkSource(
+    unlinkTarget(nodes, sourceNode, targetNode),
+    sourceNode,
+    targetNode
+  );
+}
+
+// Removes the edge from the outgoing edges of node u.
+function unlinkTarget<N, E>(
+  nodes: NodeMap<N, E>,
+  sourceNode: NodeId,
+  targetNode: NodeId
+): NodeMap<N, E> {
+  const source = nodes.get(sourceNode) as NodeEntry<N, E>;
+  const out = new Map(source.out);
+  out.delete(targetNode);
+  return nodes.set(sourceNode, { ...source, out });
+}
+
+// Removes the edge from the incoming edges of node v.
+function unlinkSource<N, E>(
+  nodes: NodeMap<N, E>,
+  sourceNode: NodeId,
+  targetNode: NodeId
+): NodeMap<N, E> {
+  const target = nodes.get(targetNode) as NodeEntry<N, E>;
+  const sources = new Set(target.in);
+  sources.delete(sourceNode);
+  return nodes.set(targetNode, { ...target, in: sources });
+}
@@ -0,0 +1,305 @@
+// An immutable map backed by a hash array mapped trie.
+// Bagwell "Ideal Hash Trees" (2001)
+// Updates return a new map that shares all untouched branches with the old
+// one, so they cost O(log32 n) time and memory instead of a full copy.
+// Keys are compared with ===, so the number 1 and the string "1" are
+// different keys. Iteration order is unspecified.
+export class PersistentMap<K extends string | number, V> {
+  // The root of the trie, undefined for empty maps.
+  protected _root: TrieNode<K, V> | undefined;
+
+  // The number of entries.
+  protected _size = 0;
+
+  constructor(entries?: Iterable<[K, V]>) {
+    if (entries) {
+      for (const [key, value] of entries) {
+        const map = this.set(key, value);
+        this._root = map._root;
+        this._size = map._size;
+      }
+    }
+  }
+
+  // Gets the number of entries.
+  get size() {
+    return this._size;
+  }
+
+  // Returns true if there is an entry for the key.
+  has(key: K) {
+    return this.find(key) !== undefined;
+  }
+
+  // Gets the value of the key.
+  // Returns undefined if there is no entry for the key.
+  get(key: K): V | undefined {
+    return this.find(key)?.value;
+  }
+
+  // Returns a map with the value set for the key.
+  // Returns this map if the key already has the identical value.
+  set(key: K, value: V): PersistentMap<K, V> {
+    const entry: Entry<K, V> = { kind: "entry", hash: hash(key), key, value };
+    if (!this._root) {
+      return this.withRoot(entry, 1);
+    }
+    const size = this.has(key) ? this._size : this._size + 1;
+    const root = insert(this._root, 0, entry);
+    return root === this._root ? this : this.withRoot(root, size);
+  }
+
+  // Returns a map without an entry for the key.
+  // Returns this map if there is no entry for the key.
+  delete(key: K): PersistentMap<K, V> {
+    if (!this._root) {
+      return this;
+    }
+    const root = remove(this._root, 0, key, hash(key));
+    return root === this._root ? this : this.withRoot(root, this._size - 1);
+  }
+
+  *entries(): IterableIterator<[K, V]> {
+    if (!this._root) {
+      return;
+    }
+    // Depth-first over the trie, with an explicit stack of nodes.
+    const stack: TrieNode<K, V>[] = [this._root];
+    while (stack.length > 0) {
+      const node = stack.pop() as TrieNode<K, V>;
+      if (node.kind === "entry") {
+        yield [node.key, node.value];
+      } else if (node.kind === "collision") {
+        for (const entry of node.entries) {
+          yield [entry.key, entry.value];
+        }
+      } else {
+        for (let i = node.children.length - 1; i >= 0; i--) {
+          stack.push(node.children[i]);
+        }
+      }
+    }
+  }
+
+  *keys(): IterableIterator<K> {
+    for (const [key] of this.entries()) {
+      yield key;
+    }
+  }
+
+  *values(): IterableIterator<V> {
+    for (const [, value] of this.entries()) {
+      yield value;
+    }
+  }
+
+  [Symbol.iterator]() {
+    return this.entries();
+  }
+
+  // Looks up the entry of the key.
+  protected find(key: K): Entry<K, V> | undefined {
+    const keyHash = hash(key);
+    let node = this._root;
+    let shift = 0;
+    while (node) {
+      if (node.kind === "entry") {
+        return node.key === key ? node : undefined;
+      }
+      if (node.kind === "collision") {
+        return node.entries.find((entry) => entry.key === key);
+      }
+      const bit = bitFor(keyHash, shift);
+      if ((node.bitmap & bit) === 0) {
+        return undefined;
+      }
+      node = node.children[indexFor(node.bitmap, bit)];
+      shift += BITS;
+    }
+    return undefined;
+  }
+
+  protected withRoot(root: TrieNode<K, V> | undefined, size: number) {
+    const map = new PersistentMap<K, V>();
+    map._root = root;
+    map._size = size;
+    return map;
+  }
+}
+
+// The number of hash bits consumed per trie level.
+const BITS = 5;
+
+interface Entry<K, V> {
+  kind: "entry";
+  hash: number;
+  key: K;
+  value: V;
+}
+
+// Entries whose keys have the same hash.
+interface Collision<K, V> {
+  kind: "collision";
+  hash: number;
+  entries: Entry<K, V>[];
+}
+
+// A trie level. Bit i of the bitmap is set if there is a child for the
+// hash bits i, and children are stored in bit order.
+interface Branch<K, V> {
+  kind: "branch";
+  bitmap: number;
+  children: TrieNode<K, V>[];
+}
+
+type TrieNode<K, V> = Entry<K, V> | Collision<K, V> | Branch<K, V>;
+
+// FNV-1a hash of the string form of the key. Numbers and strings with the
+// same string form collide, which the trie resolves by comparing keys.
+function hash(key: string | number): number {
+  const text = String(key);
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// Gets the bitmap bit for the hash bits of the given level, as an unsigned
+// number so bits compare in order.
+function bitFor(keyHash: number, shift: number) {
+  return (1 << ((keyHash >>> shift) & 31)) >>> 0;
+}
+
+// Counts the set bits of the bitmap below the given bit.
+function indexFor(bitmap: number, bit: number) {
+  let bits = bitmap & (bit - 1);
+  bits = bits - ((bits >>> 1) & 0x55555555);
+  bits = (bits & 0x33333333) + ((bits >>> 2) & 0x33333333);
+  return (Math.imul((bits + (bits >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24) | 0;
+}
+
+function insert<K, V>(
+  node: TrieNode<K, V>,
+  shift: number,
+  entry: Entry<K, V>
+): TrieNode<K, V> {
+  if (node.kind === "entry") {
+    if (node.key === entry.key) {
+      return node.value === entry.value ? node : entry;
+    }
+    return merge(node, entry, shift);
+  }
+
+  if (node.kind === "collision") {
+    if (node.hash !== entry.hash) {
+      return merge(node, entry, shift);
+    }
+    const index = node.entries.findIndex((other) => other.key === entry.key);
+    if (index < 0) {
+      return { ...node, entries: [...node.entries, entry] };
+    }
+    if (node.entries[index].value === entry.value) {
+      return node;
+    }
+    const entries = [...node.entries];
+    entries[index] = entry;
+    return { ...node, entries };
+  }
+
+  const bit = bitFor(entry.hash, shift);
+  const index = indexFor(node.bitmap, bit);
+  const children = [...node.children];
+  if ((node.bitmap & bit) === 0) {
+    children.splice(index, 0, entry);
+    return { kind: "branch", bitmap: node.bitmap | bit, children };
+  }
+  const child = insert(node.children[index], shift + BITS, entry);
+  if (child === node.children[index]) {
+    return node;
+  }
+  children[index] = child;
+  return { kind: "branch", bitmap: node.bitmap, children };
+}
+
+// Combines an entry or collision with an entry of a different key into a
+// subtrie at the given level.
+function merge<K, V>(
+  node: Entry<K, V> | Collision<K, V>,
+  entry: Entry<K, V>,
+  shift: number
+): TrieNode<K, V> {
+  if (node.hash === entry.hash) {
+    const entries = node.kind === "entry" ? [node] : node.entries;
+    return {
+      kind: "collision",
+      hash: entry.hash,
+      entries: [...entries, entry],
+    };
+  }
+
+  // Different hashes differ in some bit below 32, so this terminates.
+  const nodeBit = bitFor(node.hash, shift);
+  const entryBit = bitFor(entry.hash, shift);
+  if (nodeBit === entryBit) {
+    return {
+      kind: "branch",
+      bitmap: nodeBit,
+      children: [merge(node, entry, shift + BITS)],
+    };
+  }
+  return {
+    kind: "branch",
+    bitmap: nodeBit | entryBit,
+    children: nodeBit < entryBit ? [node, entry] : [entry, node],
+  };
+}
+
+// Removes the key from the subtrie. Returns the same node if the key was
+// not found, and undefined if the subtrie became empty. Branches left with
+// a single entry or collision are replaced by it.
+function remove<K, V>(
+  node: TrieNode<K, V>,
+  shift: number,
+  key: K,
+  keyHash: number
+): TrieNode<K, V> | undefined {
+  if (node.kind === "entry") {
+    return node.key === key ? undefined : node;
+  }
+
+  if (node.kind === "collision") {
+    const entries = node.entries.filter((entry) => entry.key !== key);
+    if (entries.length === node.entries.length) {
+      return node;
+    }
+    return entries.length === 1 ? entries[0] : { ...node, entries };
+  }
+
+  const bit = bitFor(keyHash, shift);
+  if ((node.bitmap & bit) === 0) {
+    return node;
+  }
+  const index = indexFor(node.bitmap, bit);
+  const child = remove(node.children[index], shift + BITS, key, keyHash);
+  if (child === node.children[index]) {
+    return node;
+  }
+
+  const children = [...node.children];
+  let bitmap = node.bitmap;
+  if (child) {
+    children[index] = child;
+  } else {
+    children.splice(index, 1);
+    bitmap &= ~bit;
+  }
+  if (children.length === 0) {
+    return undefined;
+  }
+  if (children.length === 1 && children[0].kind !== "branch") {
+    return children[0];
+  }
+  return { kind: "branch", bitmap, children };
+}
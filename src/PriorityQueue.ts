@@ -0,0 +1,108 @@
+// A min-priority queue backed by a binary heap.
+// Items with the lowest priority are extracted first. Items with equal
+// priority are extracted in insertion order, so results are deterministic.
+// Pushing and popping cost O(log n) where n = number of queued items.
+export class PriorityQueue<T> {
+  // The heap, stored as an array where the children of index i
+  // live at 2i + 1 and 2i + 2.
+  protected _heap: { item: T; priority: number; order: number }[] = [];
+
+  // Insertion counter used to break ties between equal priorities.
+  protected _order = 0;
+
+  // Gets the number of queued items.
+  get size() {
+    return this._heap.length;
+  }
+
+  // Returns true if there are no queued items.
+  isEmpty() {
+    return this._heap.length === 0;
+  }
+
+  // Adds an item with the given priority.
+  // The same item may be queued several times, e.g. to emulate decrease-key.
+  push(item: T, priority: number) {
+    this._heap.push({ item, priority, order: this._order++ });
+    this.siftUp(this._heap.length - 1);
+    return this;
+  }
+
+  // Returns the item with the lowest priority without removing it.
+  // Returns undefined if the queue is empty.
+  peek(): T | undefined {
+    return this._heap[0]?.item;
+  }
+
+  // Returns the lowest priority in the queue.
+  // Returns Infinity if the queue is empty.
+  peekPriority(): number {
+    return this._heap[0]?.priority ?? Infinity;
+  }
+
+  // Removes and returns the item with the lowest priority.
+  // Returns undefined if the queue is empty.
+  pop(): T | undefined {
+    const top = this._heap[0];
+    const last = this._heap.pop();
+    if (top !== last && last !== undefined) {
+      this._heap[0] = last;
+      this.siftDown(0);
+    }
+    return top?.item;
+  }
+
+  // Removes all queued items.
+  clear() {
+    this._heap = [];
+  }
+
+  // Returns true if the entry at index i should be extracted before the one at j.
+  protected before(i: number, j: number) {
+    const a = this._heap[i];
+    const b = this._heap[j];
+    return (
+      a.priority < b.priority ||
+      (a.priority === b.priority && a.order < b.order)
+    );
+  }
+
+  protected swap(i: number, j: number) {
+    const entry = this._heap[i];
+    this._heap[i] = this._heap[j];
+    this._heap[j] = entry;
+  }
+
+  // Moves the entry at the given index up until the heap property holds.
+  protected siftUp(index: number) {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (!this.before(index, parent)) {
+        return;
+      }
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  // Moves the entry at the given index down until the heap property holds.
+  protected siftDown(index: number) {
+    const length = this._heap.length;
+    for (;;) {
+      const left = 2 * index + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < length && this.before(left, smallest)) {
+        smallest = left;
+      }
+      if (right < length && this.before(right, smallest)) {
+        smallest = right;
+      }
+      if (smallest === index) {
+        return;
+      }
+      this.swap(index, smallest);
+      index = smallest;
+    }
+  }
+}
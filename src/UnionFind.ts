@@ -0,0 +1,107 @@
+// A disjoint-set forest with union by rank and path compression.
+// Cormen et al. "Introduction to Algorithms" 3rd Ed. p. 571
+// Elements are added implicitly the first time they are seen. Operations
+// cost O(α(n)) amortized, where α is the inverse Ackermann function.
+export class UnionFind<T> {
+  // The parent of each element. Roots are their own parent.
+  protected _parents: Map<T, T> = new Map();
+
+  // Upper bounds for the height of each root's tree.
+  protected _ranks: Map<T, number> = new Map();
+
+  // The number of disjoint sets.
+  protected _count = 0;
+
+  constructor(elements?: Iterable<T>) {
+    if (elements) {
+      for (const element of elements) {
+        this.add(element);
+      }
+    }
+  }
+
+  // Gets the number of disjoint sets.
+  get count() {
+    return this._count;
+  }
+
+  // Adds an element as a new singleton set.
+  // If the element was already added, this function does nothing.
+  add(element: T) {
+    if (!this._parents.has(element)) {
+      this._parents.set(element, element);
+      this._ranks.set(element, 0);
+      this._count++;
+    }
+    return this;
+  }
+
+  // Returns true if the element was added.
+  has(element: T) {
+    return this._parents.has(element);
+  }
+
+  // Finds the representative of the set containing the element.
+  find(element: T): T {
+    this.add(element);
+
+    let root = element;
+    while (this._parents.get(root) !== root) {
+      root = this._parents.get(root) as T;
+    }
+
+    // Point every element on the way directly to the root.
+    while (element !== root) {
+      const parent = this._parents.get(element) as T;
+      this._parents.set(element, root);
+      element = parent;
+    }
+
+    return root;
+  }
+
+  // Merges the sets containing the two elements.
+  // Returns false if they already were in the same set.
+  union(a: T, b: T): boolean {
+    const rootA = this.find(a);
+    const rootB = this.find(b);
+    if (rootA === rootB) {
+      return false;
+    }
+
+    const rankA = this._ranks.get(rootA) as number;
+    const rankB = this._ranks.get(rootB) as number;
+    if (rankA < rankB) {
+      this._parents.set(rootA, rootB);
+    } else {
+      this._parents.set(rootB, rootA);
+      if (rankA === rankB) {
+        this._ranks.set(rootA, rankA + 1);
+      }
+    }
+    this._count--;
+
+    return true;
+  }
+
+  // Returns true if the two elements are in the same set.
+  connected(a: T, b: T) {
+    return this.find(a) === this.find(b);
+  }
+
+  // Gets the disjoint sets. Sets are ordered by their earliest added
+  // element and list their elements in the order they were added.
+  sets(): T[][] {
+    const sets = new Map<T, T[]>();
+    this._parents.forEach((parent, element) => {
+      const root = this.find(element);
+      const set = sets.get(root);
+      if (set) {
+        set.push(element);
+      } else {
+        sets.set(root, [element]);
+      }
+    });
+    return [...sets.values()];
+  }
+}
@@ -0,0 +1,104 @@
+import {
+  fromAdjacencyMatrix,
+  fromSparseAdjacencyMatrix,
+  toAdjacencyMatrix,
+  toSparseAdjacencyMatrix,
+} from "../AdjacencyMatrix";
+import { Graph, MultiGraph, UndirectedGraph } from "../Graph";
+
+describe("AdjacencyMatrix", () => {
+  const createGraph = () => {
+    const graph = new Graph();
+    graph.addEdge("a", 1, 2).addEdge(1, "1", 0).addEdge("1", "a", -1);
+    graph.addNode("x");
+    return graph;
+  };
+
+  it("Should convert graphs to dense matrices.", () => {
+    expect(toAdjacencyMatrix(createGraph())).toEqual({
+      nodes: ["a", 1, "1", "x"],
+      weights: [
+        [null, 2, null, null],
+        [null, null, 0, null],
+        [-1, null, null, null],
+        [null, null, null, null],
+      ],
+    });
+  });
+
+  it("Should convert graphs to sparse matrices.", () => {
+    expect(toSparseAdjacencyMatrix(createGraph())).toEqual({
+      nodes: ["a", 1, "1", "x"],
+      offsets: [0, 1, 2, 3, 3],
+      targets: [1, 2, 0],
+      weights: [2, 0, -1],
+    });
+  });
+
+  it("Should round-trip graphs.", () => {
+    const graph = createGraph();
+    const dense = JSON.parse(JSON.stringify(toAdjacencyMatrix(graph)));
+    const sparse = JSON.parse(JSON.stringify(toSparseAdjacencyMatrix(graph)));
+    expect(fromAdjacencyMatrix(dense).serialize()).toEqual(graph.serialize());
+    expect(fromSparseAdjacencyMatrix(sparse).serialize()).toEqual(
+      graph.serialize()
+    );
+  });
+
+  it("Should round-trip undirected graphs.", () => {
+    const graph = new UndirectedGraph();
+    graph.addEdge("a", "b", 2).addEdge("b", "c").addEdge("c", "c", 3);
+
+    const dense = toAdjacencyMatrix(graph);
+    expect(dense.weights).toEqual([
+      [null, 2, null],
+      [2, null, 1],
+      [null, 1, 3],
+    ]);
+    const parsed = fromAdjacencyMatrix(dense, new UndirectedGraph());
+    expect(parsed).toBeInstanceOf(UndirectedGraph);
+    expect(parsed.serialize()).toEqual(graph.serialize());
+
+    const sparse = toSparseAdjacencyMatrix(graph);
+    expect(
+      fromSparseAdjacencyMatrix(sparse, new UndirectedGraph()).serialize()
+    ).toEqual(graph.serialize());
+  });
+
+  it("Should store the lightest parallel edge of multigraphs.", () => {
+    const graph = new MultiGraph();
+    graph.addEdge("a", "b", 3);
+    graph.addEdge("a", "b", 2);
+
+    expect(toAdjacencyMatrix(graph).weights[0]).toEqual([null, 2]);
+    expect(toSparseAdjacencyMatrix(graph)).toMatchObject({
+      targets: [1],
+      weights: [2],
+    });
+  });
+
+  it("Should throw on malformed matrices.", () => {
+    expect(() =>
+      fromAdjacencyMatrix({ nodes: ["a", "b"], weights: [[null, 1]] })
+    ).toThrow("Adjacency matrix must have one row and column per node");
+    expect(() =>
+      fromAdjacencyMatrix({ nodes: ["a"], weights: [[null, 1]] })
+    ).toThrow("Adjacency matrix must have one row and column per node");
+    expect(() =>
+      fromSparseAdjacencyMatrix({
+        nodes: ["a", "b"],
+        offsets: [0, 1, 1],
+        targets: [2],
+        weights: [1],
+      })
+    ).toThrow("Invalid sparse adjacency matrix");
+    expect(() =>
+      fromSparseAdjacencyMatrix({
+        nodes: ["a", "b"],
+        offsets: [0, 2, 1],
+        targets: [1],
+        weights: [1],
+      })
+    ).toThrow("Invalid sparse adjacency matrix");
+  });
+});
@@ -0,0 +1,134 @@
+import { toDot } from "../Dot";
+import { parseDot } from "../DotParser";
+import { Graph, MultiGraph, NodeId, UndirectedGraph } from "../Graph";
+
+describe("toDot", () => {
+  it("Should write digraphs with edge weights.", () => {
+    const graph = new Graph();
+    graph.addEdge("a", "b", 2).addEdge("b", "c");
+    graph.addNode("d");
+
+    expect(graph.toDot()).toBe(
+      [
+        "digraph {",
+        "  a;",
+        "  b;",
+        "  c;",
+        "  d;",
+        "  a -> b [label=2];",
+        "  b -> c [label=1];",
+        "}",
+        "",
+      ].join("\n")
+    );
+    expect(graph.toDot({ edgeLabels: false, name: "deps" })).toContain(
+      "digraph deps {"
+    );
+  });
+
+  it("Should write undirected edges once.", () => {
+    const graph = new UndirectedGraph();
+    graph.addEdge("a", "b", 3).addEdge("b", "c").addEdge("c", "c");
+
+    expect(graph.toDot({ edgeLabels: false })).toBe(
+      [
+        "graph {",
+        "  a;",
+        "  b;",
+        "  c;",
+        "  a -- b;",
+        "  b -- c;",
+        "  c -- c;",
+        "}",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("Should quote ids that are not plain names.", () => {
+    const graph = new Graph();
+    graph.addEdge(1, "1").addEdge("node", 'say "hi"').addEdge(-2.5, "a\\b");
+
+    const dot = graph.toDot({ edgeLabels: false });
+    expect(dot).toContain('  1 -> "1";');
+    expect(dot).toContain('  "node" -> "say \\"hi\\"";');
+    expect(dot).toContain('  -2.5 -> "a\\\\b";');
+  });
+
+  it("Should write node labels and ranks.", () => {
+    const graph = new Graph<string>();
+    graph.addNode("a", "Start");
+    graph.addEdge("a", "b").addEdge("a", "c").addEdge("b", "d");
+    const ranks = new Map<NodeId, number>([
+      ["a", 0],
+      ["b", 1],
+      ["c", 1],
+    ]);
+
+    const dot = graph.toDot({
+      nodeLabel: (node) => graph.getNodeData(node),
+      rank: (node) => ranks.get(node),
+      edgeLabels: false,
+    });
+    expect(dot).toContain("  a [label=Start];");
+    expect(dot).toContain("  b;");
+    expect(dot).toContain("  { rank=same; a; }");
+    expect(dot).toContain("  { rank=same; b; c; }");
+    expect(dot).not.toContain("rank=same; d");
+  });
+
+  it("Should highlight paths and cycles.", () => {
+    const graph = new Graph();
+    graph.addEdge("a", "b", 1).addEdge("b", "c", 1).addEdge("a", "c", 5);
+    graph.addEdge("c", "a");
+
+    const path = graph.shortestPath("a", "c");
+    const dot = graph.toDot({ highlight: path, edgeLabels: false });
+    expect(dot).toContain("  a [color=red];");
+    expect(dot).toContain("  b [color=red];");
+    expect(dot).toContain("  a -> b [color=red];");
+    expect(dot).toContain("  b -> c [color=red];");
+    expect(dot).toContain("  a -> c;");
+    expect(dot).toContain("  c -> a;");
+
+    const cycle = graph.findCycle() as NodeId[];
+    const highlighted = graph.toDot({
+      highlight: [...cycle, cycle[0]],
+      highlightColor: "#ff0000",
+    });
+    expect(highlighted).toContain('  c -> a [label=1, color="#ff0000"];');
+  });
+
+  it("Should highlight undirected edges in both directions.", () => {
+    const graph = new UndirectedGraph();
+    graph.addEdge("a", "b").addEdge("b", "c");
+
+    const dot = graph.toDot({ highlight: ["c", "b", "a"] });
+    expect(dot).toContain("  a -- b [label=1, color=red];");
+    expect(dot).toContain("  b -- c [label=1, color=red];");
+  });
+
+  it("Should write large and small numbers as numerals.", () => {
+    const graph = new Graph();
+    graph.addEdge(1e21, -1e-7, 2.5e-8).addEdge(1.5e300, NaN);
+
+    const dot = toDot(graph);
+    expect(dot).toContain(
+      "  1000000000000000000000 -> -0.0000001 [label=0.000000025];"
+    );
+    expect(dot).toContain('  "NaN";');
+    const parsed = parseDot(dot);
+    expect(parsed.nodes).toEqual([1e21, -1e-7, 1.5e300, "NaN"]);
+    expect(parsed.getEdgeWeight(1e21, -1e-7)).toBe(2.5e-8);
+  });
+
+  it("Should write every parallel edge of multigraphs.", () => {
+    const graph = new MultiGraph();
+    graph.addEdge("a", "b", 1);
+    graph.addEdge("a", "b", 2);
+
+    const dot = graph.toDot();
+    expect(dot).toContain("  a -> b [label=1];");
+    expect(dot).toContain("  a -> b [label=2];");
+  });
+});
@@ -0,0 +1,125 @@
+import { DotError, parseDot } from "../DotParser";
+import { Graph, UndirectedGraph } from "../Graph";
+
+describe("parseDot", () => {
+  it("Should parse digraphs.", () => {
+    const graph = parseDot(`
+      digraph deps {
+        a -> b -> c;
+        b -> d [weight=3]
+        e
+      }
+    `);
+    expect(graph).toBeInstanceOf(Graph);
+    expect(graph).not.toBeInstanceOf(UndirectedGraph);
+    expect(graph.nodes).toEqual(["a", "b", "c", "d", "e"]);
+    expect(graph.adjacent("a")).toEqual(["b"]);
+    expect(graph.adjacent("b")).toEqual(["c", "d"]);
+    expect(graph.getEdgeWeight("b", "d")).toBe(3);
+    expect(graph.getEdgeData("b", "d")).toBeUndefined();
+  });
+
+  it("Should parse undirected graphs.", () => {
+    const graph = parseDot("strict graph { a -- b; b -- c -- a }");
+    expect(graph).toBeInstanceOf(UndirectedGraph);
+    expect(graph.adjacent("a")).toEqual(["b", "c"]);
+    expect(graph.hasEdge("c", "b")).toBe(true);
+  });
+
+  it("Should round-trip graphs written by toDot.", () => {
+    const graph = new Graph();
+    graph.addEdge(1, "1", 2).addEdge("node", 'say "hi"', -1.5);
+    graph.addEdge("a\\b", "été").addNode(-0.5);
+
+    const parsed = parseDot(graph.toDot({ name: "round trip" }));
+    expect(parsed.serialize()).toEqual(graph.serialize());
+
+    const undirected = new UndirectedGraph();
+    undirected.addEdge("a", "b", 2).addEdge("b", 3);
+    expect(parseDot(undirected.toDot()).serialize()).toEqual(
+      undirected.serialize()
+    );
+  });
+
+  it("Should keep attributes as data payloads.", () => {
+    const graph = parseDot(`
+      digraph {
+        node [shape=box];
+        a [label="Start", color=red];
+        a -> b [label="uses", style=dashed];
+        c [shape=circle]
+        a [color=blue]
+        edge [color=gray]
+        b -> c [label=2.5]
+      }
+    `);
+    expect(graph.getNodeData("a")).toEqual({
+      shape: "box",
+      label: "Start",
+      color: "blue",
+    });
+    expect(graph.getNodeData("b")).toEqual({ shape: "box" });
+    expect(graph.getNodeData("c")).toEqual({ shape: "circle" });
+    expect(graph.getEdgeData("a", "b")).toEqual({
+      label: "uses",
+      style: "dashed",
+    });
+    expect(graph.getEdgeWeight("b", "c")).toBe(2.5);
+    expect(graph.getEdgeData("b", "c")).toEqual({ color: "gray" });
+  });
+
+  it("Should parse subgraphs.", () => {
+    const graph = parseDot(`
+      digraph {
+        rankdir=LR
+        subgraph cluster_0 { node [color=red]; a; b }
+        c
+        { a b } -> { c d }
+        subgraph { rank=same; e; f }
+        e -> f
+      }
+    `);
+    expect(graph.nodes).toEqual(["a", "b", "c", "d", "e", "f"]);
+    expect(graph.getNodeData("a")).toEqual({ color: "red" });
+    expect(graph.getNodeData("c")).toBeUndefined();
+    expect(graph.adjacent("a")).toEqual(["c", "d"]);
+    expect(graph.adjacent("b")).toEqual(["c", "d"]);
+    expect(graph.adjacent("e")).toEqual(["f"]);
+  });
+
+  it("Should skip comments, ports and HTML labels.", () => {
+    const graph = parseDot(`
+# generated
+digraph {
+  // a line comment
+  /* a block
+     comment */
+  a:out:s -> b:in [label=<<b>bold</b>>];
+  "multi\\
+line" -> a
+}`);
+    expect(graph.nodes).toEqual(["a", "b", "multiline"]);
+    expect(graph.getEdgeData("a", "b")).toEqual({ label: "<b>bold</b>" });
+  });
+
+  it("Should throw on malformed input.", () => {
+    expect(() => parseDot("digraph { a -- b }")).toThrow(DotError);
+    expect(() => parseDot("digraph { a -- b }")).toThrow(
+      "Unexpected edge operator -- at line 1"
+    );
+    expect(() => parseDot("tree { }")).toThrow(
+      "Expected graph or digraph at line 1, found: tree"
+    );
+    expect(() => parseDot("graph {\n a -- \n}")).toThrow(
+      "Expected an ID at line 3, found: }"
+    );
+    expect(() => parseDot("graph { a")).toThrow(
+      "Expected } at line 1, found: end of input"
+    );
+    expect(() => parseDot('graph { "a }')).toThrow("Unterminated string");
+    expect(() => parseDot("graph { a -- b [weight=x] }")).toThrow(
+      "Invalid edge weight: x"
+    );
+    expect(() => parseDot("graph { } }")).toThrow("Expected end of input");
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  EdgeListError,
+  EdgeListReader,
+  edgeListLines,
+  parseEdgeList,
+  toEdgeList,
+} from "../EdgeList";
+import { Graph, MultiGraph, UndirectedGraph } from "../Graph";
+
+describe("EdgeList", () => {
+  it("Should write edges with weights.", () => {
+    const graph = new Graph();
+    graph.addEdge("a", "b", 2).addEdge("b", "c");
+    graph.addNode("d");
+
+    expect(toEdgeList(graph)).toBe("a\tb\t2\nb\tc\t1\nd\n");
+    expect(
+      toEdgeList(graph, { delimiter: ",", header: true, weights: false })
+    ).toBe("source,target\na,b\nb,c\nd\n");
+    expect([...edgeListLines(graph)]).toEqual(["a\tb\t2", "b\tc\t1", "d"]);
+  });
+
+  it("Should generate lines without serializing the graph.", () => {
+    const graph = new Graph();
+    graph.addEdge("a", "b").addEdge("b", "c");
+    const serialize = jest.spyOn(graph, "serialize");
+
+    const lines = edgeListLines(graph);
+    expect(lines.next().value).toBe("a\tb\t1");
+    expect(serialize).not.toHaveBeenCalled();
+  });
+
+  it("Should round-trip numeric and string ids.", () => {
+    const graph = new Graph();
+    graph.addEdge(1, "1", 0.5).addEdge("a,b", 'say "hi"').addEdge(-2, " x");
+    graph.addEdge("#tag", "", 3).addEdge("007", 1e21);
+    graph.addNode("line\nbreak");
+
+    const csv = toEdgeList(graph, { delimiter: "," });
+    expect(csv).toContain('1,"1",0.5\n');
+    expect(csv).toContain('"a,b","say ""hi""",1\n');
+    expect(csv).toContain('"#tag","",3\n');
+    expect(csv).toContain("007,1e+21,1\n");
+    expect(parseEdgeList(csv, { delimiter: "," }).serialize()).toEqual(
+      graph.serialize()
+    );
+
+    const tsv = toEdgeList(graph);
+    expect(tsv).toContain("a,b\t");
+    expect(parseEdgeList(tsv).serialize()).toEqual(graph.serialize());
+  });
+
+  it("Should write undirected edges once.", () => {
+    const graph = new UndirectedGraph();
+    graph.addEdge("a", "b", 2).addEdge("b", "c").addEdge("c", "c");
+
+    const text = toEdgeList(graph);
+    expect(text).toBe("a\tb\t2\nb\tc\t1\nc\tc\t1\n");
+
+    const parsed = parseEdgeList(text, { graph: new UndirectedGraph() });
+    expect(parsed).toBeInstanceOf(UndirectedGraph);
+    expect(parsed.serialize()).toEqual(graph.serialize());
+  });
+
+  it("Should write every parallel edge of multigraphs.", () => {
+    const graph = new MultiGraph();
+    graph.addEdge("a", "b", 1);
+    graph.addEdge("a", "b", 2);
+
+    const text = toEdgeList(graph);
+    expect(text).toBe("a\tb\t1\na\tb\t2\n");
+    const parsed = parseEdgeList(text, { graph: new MultiGraph() });
+    expect((parsed as MultiGraph).edgesBetween("a", "b").length).toBe(2);
+  });
+
+  it("Should skip headers, comments and empty lines.", () => {
+    const graph = parseEdgeList(
+      "# From a network dump\nfrom, to, w\r\n\n 1 , 2 , 3 \r\n2,3,\n3\n",
+      { delimiter: ",", header: true }
+    );
+    expect(graph.nodes).toEqual([1, 2, 3]);
+    expect(graph.getEdgeWeight(1, 2)).toBe(3);
+    expect(graph.getEdgeWeight(2, 3)).toBe(1);
+  });
+
+  it("Should read edge lists in chunks and lines.", () => {
+    const reader = new EdgeListReader();
+    reader.write("a\tb\t").write("2\nb\t").write('"c\nd"');
+    expect(reader.graph.nodes).toEqual(["a", "b"]);
+    reader.write("\n").readLine("e").readLine("f\tg");
+    const graph = reader.end();
+    expect(graph.nodes).toEqual(["a", "b", "c\nd", "e", "f", "g"]);
+    expect(graph.getEdgeWeight("a", "b")).toBe(2);
+    expect(graph.hasEdge("b", "c\nd")).toBe(true);
+  });
+
+  it("Should throw on malformed records.", () => {
+    expect(() => parseEdgeList("a\tb\nb\tc\tx\n")).toThrow(
+      new EdgeListError("Invalid edge weight: x", 2)
+    );
+    expect(() => parseEdgeList("a\tb\t1\t2")).toThrow(
+      "Expected at most 3 fields, found 4 at line 1"
+    );
+    expect(() => parseEdgeList('a\t"b\n\nc')).toThrow(
+      "Unterminated quoted field at line 1"
+    );
+    expect(() => parseEdgeList('"a"b\tc')).toThrow(
+      "Unexpected text after quoted field at line 1"
+    );
+    expect(() => parseEdgeList("\tb")).toThrow("Missing node id at line 1");
+
+    try {
+      parseEdgeList("a\n\nb\tc\td\te");
+    } catch (error) {
+      expect(error).toBeInstanceOf(EdgeListError);
+      expect((error as EdgeListError).line).toBe(3);
+    }
+  });
+});
@@ -0,0 +1,52 @@
+import { EdgeMap } from "../EdgeMap";
+
+describe("EdgeMap", () => {
+  it("Should store values by ordered node pairs.", () => {
+    const map = new EdgeMap<string, number>();
+    map.set("a", "b", 1).set("b", "a", 2);
+    expect(map.size).toBe(2);
+    expect(map.get("a", "b")).toBe(1);
+    expect(map.get("b", "a")).toBe(2);
+    expect(map.has("a", "c")).toBe(false);
+    expect(map.get("a", "c")).toBeUndefined();
+
+    map.set("a", "b", 3);
+    expect(map.size).toBe(2);
+    expect(map.get("a", "b")).toBe(3);
+  });
+
+  it("Should keep numeric and string ids apart.", () => {
+    const map = new EdgeMap<string | number, number>();
+    map.set(1, 2, 1);
+    map.set("1", "2", 2);
+    expect(map.get(1, 2)).toBe(1);
+    expect(map.get("1", "2")).toBe(2);
+    expect(map.has(1, "2")).toBe(false);
+  });
+
+  it("Should not confuse ids containing separators.", () => {
+    const map = new EdgeMap<string, number>();
+    map.set("a|b", "c", 1);
+    map.set("a", "b|c", 2);
+    expect(map.size).toBe(2);
+    expect(map.get("a|b", "c")).toBe(1);
+    expect(map.get("a", "b|c")).toBe(2);
+  });
+
+  it("Should delete values.", () => {
+    const map = new EdgeMap<string, number>();
+    map.set("a", "b", 1).set("a", "c", 2).set("b", "c", 3);
+    expect(map.delete("a", "b")).toBe(true);
+    expect(map.delete("a", "b")).toBe(false);
+    expect(map.size).toBe(2);
+
+    map.deleteSource("a");
+    expect(map.size).toBe(1);
+    expect(map.has("a", "c")).toBe(false);
+    expect([...map.entries()]).toEqual([["b", "c", 3]]);
+
+    map.clear();
+    expect(map.size).toBe(0);
+    expect([...map.entries()]).toEqual([]);
+  });
+});
@@ -0,0 +1,52 @@
+import { EventEmitter } from "../EventEmitter";
+
+interface TestEvents {
+  ping: number;
+  pong: string;
+}
+
+describe("EventEmitter", () => {
+  it("Should call listeners of the emitted type in order.", () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const calls: string[] = [];
+    emitter.on("ping", (n) => calls.push("first " + n));
+    emitter.on("ping", (n) => calls.push("second " + n));
+    emitter.on("pong", (s) => calls.push("pong " + s));
+
+    emitter.emit("ping", 1);
+    expect(calls).toEqual(["first 1", "second 1"]);
+    expect(emitter.hasListeners("pong")).toBe(true);
+  });
+
+  it("Should unsubscribe listeners.", () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const calls: number[] = [];
+    const listener = (n: number) => calls.push(n);
+    const unsubscribe = emitter.on("ping", listener);
+
+    emitter.emit("ping", 1);
+    unsubscribe();
+    emitter.emit("ping", 2);
+    expect(calls).toEqual([1]);
+    expect(emitter.hasListeners("ping")).toBe(false);
+
+    emitter.on("ping", listener);
+    emitter.off("ping", listener).off("pong", () => undefined);
+    emitter.emit("ping", 3);
+    expect(calls).toEqual([1]);
+  });
+
+  it("Should apply subscriptions made while emitting to the next event.", () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const calls: string[] = [];
+    const second = (n: number) => calls.push("second " + n);
+    emitter.on("ping", (n) => {
+      calls.push("first " + n);
+      emitter.on("ping", second);
+    });
+
+    emitter.emit("ping", 1);
+    emitter.emit("ping", 2);
+    expect(calls).toEqual(["first 1", "first 2", "second 2"]);
+  });
+});
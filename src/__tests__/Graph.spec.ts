@@ -1,4 +1,13 @@
-import { Graph, NodeId, Serialized, UndirectedGraph } from "../Graph";
+import {
+  CycleError,
+  Graph,
+  GraphEvent,
+  MultiGraph,
+  NegativeCycleError,
+  NodeId,
+  Serialized,
+  UndirectedGraph,
+} from "../Graph";
 
 function withWeight(
   nodeList: string[] & {
@@ -162,6 +171,22 @@ describe("Graph", () => {
       expect(graph.outbound("a").length).toBe(2);
     });
 
+    it("Should return read-only adjacency views.", () => {
+      // Only read-only arrays are not assignable to mutable arrays, so these
+      // declarations do not compile if a view becomes mutable.
+      type ReadOnly<T> = T extends NodeId[] ? false : true;
+      const outbound: ReadOnly<ReturnType<Graph["outbound"]>> = true;
+      const adjacent: ReadOnly<ReturnType<Graph["adjacent"]>> = true;
+      expect([outbound, adjacent]).toEqual([true, true]);
+
+      const graph = new Graph();
+      graph.addEdge("a", "b");
+      const view = graph.outbound("a");
+      graph.addEdge("a", "c");
+      expect(view).toEqual(["b", "c"]);
+      expect(graph.adjacent("a")).toBe(view);
+    });
+
     it("should give the correct entry nodes", () => {
       const graph = new Graph();
       graph.addEdge("a", "b");
@@ -173,6 +198,57 @@ describe("Graph", () => {
       expect(graph.entryNodes).toEqual(["a", "f"]);
     });
 
+    it("Should keep inbound in sync when edges and nodes are removed.", () => {
+      const graph = new Graph();
+      graph.addEdge("a", "c");
+      graph.addEdge("b", "c");
+      graph.addEdge("c", "d");
+
+      graph.removeEdge("a", "c");
+      expect(graph.inbound("c")).toEqual(["b"]);
+
+      graph.removeNode("c");
+      expect(graph.inbound("d")).toEqual([]);
+      expect(graph.inbound("c")).toEqual([]);
+
+      graph.addEdge("c", "d");
+      expect(graph.inbound("d")).toEqual(["c"]);
+      expect(graph.inbound("c")).toEqual([]);
+
+      graph.reset();
+      expect(graph.inbound("d")).toEqual([]);
+    });
+
+    it("Should compute inbound for undirected graphs.", () => {
+      const graph = new UndirectedGraph();
+      graph.addEdge("a", "b");
+      graph.addEdge("b", "c");
+      expect(graph.inbound("b")).toEqual(["a", "c"]);
+
+      graph.removeEdge("c", "b");
+      expect(graph.inbound("b")).toEqual(["a"]);
+      expect(graph.inbound("c")).toEqual([]);
+
+      graph.removeNode("a");
+      expect(graph.inbound("b")).toEqual([]);
+    });
+
+    it("Should compute entry nodes and remove nodes in time proportional to degree.", () => {
+      const graph = new Graph();
+      const size = 50000;
+      for (let i = 1; i < size; i++) {
+        graph.addEdge(i - 1, i);
+      }
+
+      // Scanning every adjacency list per node would take O(V * E), about
+      // 10^9 steps here, which does not finish within the test timeout.
+      expect(graph.entryNodes).toEqual([0]);
+      for (let i = 0; i < size; i += 2) {
+        graph.removeNode(i);
+      }
+      expect(graph.entryNodes.length).toBe(size / 2);
+    });
+
     it("should give the correct exit nodes", () => {
       const graph = new Graph();
       graph.addEdge("a", "b");
@@ -306,6 +382,222 @@ describe("Graph", () => {
       expect(() => graph.topologicalSort()).toThrow();
     });
 
+    it("Should report the cycle of a non-DAG topological sort.", () => {
+      const graph = new Graph();
+      graph.addEdge("a", "b");
+      graph.addEdge("b", "c");
+      graph.addEdge("c", "d");
+      graph.addEdge("d", "b");
+
+      expect(() => graph.topologicalSort()).toThrow(CycleError);
+      expect(() => graph.topologicalSort()).toThrow(
+        "Cycle found: b -> c -> d -> b"
+      );
+      try {
+        graph.topologicalSort();
+      } catch (error) {
+        expect((error as CycleError).cycle).toEqual(["b", "c", "d"]);
+      }
+    });
+
+    it("Should find a cycle.", () => {
+      const graph = new Graph();
+      graph.addEdge("a", "b");
+      graph.addEdge("b", "c");
+      expect(graph.findCycle()).toBeNull();
+
+      graph.addEdge("c", "a");
+      expect(graph.findCycle()).toEqual(["a", "b", "c"]);
+
+      graph.addEdge("d", "d");
+      graph.removeEdge("c", "a");
+      expect(graph.findCycle()).toEqual(["d"]);
+    });
+
+    it("Should find all elementary cycles.", () => {
+      const graph = new Graph();
+      graph.addEdge("a", "b");
+      graph.addEdge("b", "a");
+      graph.addEdge("b", "c");
+      graph.addEdge("c", "a");
+      graph.addEdge("c", "c");
+      graph.addEdge("c", "d");
+      graph.addEdge("d", "e");
+
+      expect(graph.findAllCycles()).toEqual([
+        ["a", "b"],
+        ["a", "b", "c"],
+        ["c"],
+      ]);
+      expect(graph.findAllCycles({ limit: 2 })).toEqual([
+        ["a", "b"],
+        ["a", "b", "c"],
+      ]);
+      expect(new Graph().addEdge(1, 2).findAllCycles()).toEqual([]);
+    });
+
+    it("Should count the cycles of a complete graph.", () => {
+      // A complete directed graph on 5 nodes has
+      // sum over k = 2..5 of C(5, k) * (k - 1)! = 84 elementary cycles.
+      const graph = new Graph();
+      for (let u = 0; u < 5; u++) {
+        for (let v = 0; v < 5; v++) {
+          if (u !== v) graph.addEdge(u, v);
+        }
+      }
+      const cycles = graph.findAllCycles();
+      expect(cycles.length).toBe(84);
+      expect(new Set(cycles.map((cycle) => cycle.join())).size).toBe(84);
+      cycles.forEach((cycle) => {
+        expect(new Set(cycle).size).toBe(cycle.length);
+        expect(cycle[0]).toBe(Math.min(...(cycle as number[])));
+      });
+    });
+
+    it("Should compute topological generations.", () => {
+      const graph = new Graph();
+      graph.addEdge("socks", "shoes");
+      graph.addEdge("shirt", "belt");
+      graph.addEdge("shirt", "tie");
+      graph.addEdge("tie", "jacket");
+      graph.addEdge("belt", "jacket");
+      graph.addEdge("pants", "shoes");
+      graph.addEdge("underpants", "pants");
+      graph.addEdge("pants", "belt");
+      graph.addNode("watch");
+
+      expect(graph.topologicalGenerations()).toEqual([
+        ["socks", "shirt", "underpants", "watch"],
+        ["tie", "pants"],
+        ["shoes", "belt"],
+        ["jacket"],
+      ]);
+    });
+
+    it("Should sort topological generations with a comparator.", () => {
+      const graph = new Graph();
+      graph.addEdge(3, 10);
+      graph.addEdge(2, 10);
+      graph.addEdge(1, 20);
+      graph.addEdge(2, 20);
+
+      const compare = (a: NodeId, b: NodeId) => (a as number) - (b as number);
+      expect(graph.topologicalGenerations({ compare })).toEqual([
+        [1, 2, 3],
+        [10, 20],
+      ]);
+      expect(graph.topologicalGenerations()).toEqual([
+        [3, 2, 1],
+        [10, 20],
+      ]);
+    });
+
+    it("Should report the nodes left over by a cycle.", () => {
+      const graph = new Graph();
+      graph.addEdge("a", "b");
+      graph.addEdge("b", "c");
+      graph.addEdge("c", "d");
+      graph.addEdge("d", "b");
+      graph.addEdge("d", "e");
+      graph.addEdge("a", "f");
+
+      expect(() => graph.topologicalGenerations()).toThrow(CycleError);
+      try {
+        graph.topologicalGenerations();
+      } catch (error) {
+        expect((error as CycleError).remaining).toEqual(["b", "c", "d", "e"]);
+        expect((error as CycleError).cycle).toEqual(["b", "c", "d"]);
+      }
+    });
+
+    it("Should handle self loops and empty graphs.", () => {
+      const graph = new Graph();
+      expect(graph.topologicalGenerations()).toEqual([]);
+      graph.addEdge("a", "a");
+      expect(() => graph.topologicalGenerations()).toThrow(
+        "Cycle found: a -> a"
+      );
+    });
+
+    it("Should compute longest paths.", () => {
+      const graph = new Graph();
+      graph.addEdge("r", "s", 5);
+      graph.addEdge("r", "t", 3);
+      graph.addEdge("s", "t", 2);
+      graph.addEdge("s", "x", 6);
+      graph.addEdge("t", "x", 7);
+      graph.addEdge("t", "y", 4);
+      graph.addEdge("t", "z", 2);
+      graph.addEdge("x", "y", -1);
+      graph.addEdge("x", "z", 1);
+      graph.addEdge("y", "z", -2);
+
+      expect(graph.longestPath()).toStrictEqual(
+        withWeight(["r", "s", "t", "x", "z"], 15)
+      );
+      expect(graph.longestPath("s")).toStrictEqual(
+        withWeight(["s", "t", "x", "z"], 10)
+      );
+      expect(graph.longestPath("r", "y")).toStrictEqual(
+        withWeight(["r", "s", "t", "x", "y"], 13)
+      );
+      expect(graph.longestPath(undefined, "s")).toStrictEqual(
+        withWeight(["r", "s"], 5)
+      );
+      expect(() => graph.longestPath("s", "r")).toThrow(/No path/);
+      expect(() => graph.longestPath("q")).toThrow(/Source node/);
+      expect(new Graph().longestPath()).toStrictEqual(withWeight([], 0));
+    });
+
+    it("Should compute the critical path and slack.", () => {
+      // Tasks as edges with durations between milestones.
+      const graph = new Graph();
+      graph.addEdge("start", "design", 3);
+      graph.addEdge("design", "build", 5);
+      graph.addEdge("design", "docs", 2);
+      graph.addEdge("build", "test", 4);
+      graph.addEdge("docs", "release", 1);
+      graph.addEdge("test", "release", 1);
+      graph.addEdge("start", "marketing", 6);
+      graph.addEdge("marketing", "release", 2);
+
+      const { path, weight, schedule } = graph.criticalPath();
+      expect([...path]).toEqual([
+        "start",
+        "design",
+        "build",
+        "test",
+        "release",
+      ]);
+      expect(weight).toBe(13);
+      expect(schedule.get("start")).toEqual({
+        earliestStart: 0,
+        latestStart: 0,
+        slack: 0,
+      });
+      expect(schedule.get("docs")).toEqual({
+        earliestStart: 5,
+        latestStart: 12,
+        slack: 7,
+      });
+      expect(schedule.get("marketing")).toEqual({
+        earliestStart: 6,
+        latestStart: 11,
+        slack: 5,
+      });
+      path.forEach((node) => {
+        expect(schedule.get(node)?.slack).toBe(0);
+      });
+    });
+
+    it("Should throw a CycleError on longest paths in cyclic graphs.", () => {
+      const graph = new Graph();
+      graph.addEdge("a", "b", 1);
+      graph.addEdge("b", "a", 1);
+      expect(() => graph.longestPath()).toThrow(CycleError);
+      expect(() => graph.criticalPath()).toThrow(CycleError);
+    });
+
     it("Should compute lowest common ancestors.", () => {
       const graph = new Graph();
       graph.addEdge("a", "b");
@@ -325,6 +617,66 @@ describe("Graph", () => {
     });
   });
 
+  describe("Deep graphs", () => {
+    // A linear chain 0 -> 1 -> ... -> size - 1, far deeper than the call stack.
+    const size = 1000000;
+    const timeout = 60000;
+    let chain: Graph;
+
+    beforeAll(() => {
+      chain = new Graph();
+      for (let i = 1; i < size; i++) {
+        chain.addEdge(i - 1, i);
+      }
+    }, timeout);
+
+    it(
+      "Should run depth first search on a 1M node chain.",
+      () => {
+        const nodeList = chain.depthFirstSearch([0]);
+        expect(nodeList.length).toBe(size);
+        expect(nodeList[0]).toBe(size - 1);
+        expect(nodeList[size - 1]).toBe(0);
+      },
+      timeout
+    );
+
+    it(
+      "Should sort a 1M node chain topologically.",
+      () => {
+        const sorted = chain.topologicalSort();
+        expect(sorted.length).toBe(size);
+        expect(sorted[0]).toBe(0);
+        expect(sorted[size - 1]).toBe(size - 1);
+        expect(chain.hasCycle()).toBe(false);
+      },
+      timeout
+    );
+
+    it(
+      "Should compute lowest common ancestors on a 1M node chain.",
+      () => {
+        expect(chain.lowestCommonAncestors(0, size - 1)).toEqual([size - 1]);
+        expect(chain.lowestCommonAncestors(size - 1, 0)).toEqual([size - 1]);
+      },
+      timeout
+    );
+
+    it(
+      "Should report a cycle closing a 1M node chain.",
+      () => {
+        chain.addEdge(size - 1, 0);
+        try {
+          expect(() => chain.topologicalSort()).toThrow(CycleError);
+          expect(chain.findCycle()?.length).toBe(size);
+        } finally {
+          chain.removeEdge(size - 1, 0);
+        }
+      },
+      timeout
+    );
+  });
+
   describe("Edge cases and error handling", () => {
     it("Should return empty array of adjacent nodes for unknown nodes.", () => {
       const graph = new Graph();
@@ -391,6 +743,31 @@ describe("Graph", () => {
       const graph = new Graph(serialized);
       checkSerialized(graph.serialize());
     });
+
+    it("Should generate every edge once as a link.", () => {
+      const graph = new Graph<unknown, string>();
+      graph.addEdge("a", "b", 2, "x").addEdge("b", "a");
+      expect([...graph.links()]).toEqual([
+        { source: "a", target: "b", weight: 2, data: "x" },
+        { source: "b", target: "a", weight: 1 },
+      ]);
+
+      const undirected = new UndirectedGraph();
+      undirected.addEdge("a", "b", 2).addEdge("c", "b").addEdge("c", "c");
+      expect([...undirected.links()]).toEqual([
+        { source: "a", target: "b", weight: 2 },
+        { source: "b", target: "c", weight: 1 },
+        { source: "c", target: "c", weight: 1 },
+      ]);
+
+      const multi = new MultiGraph();
+      multi.addEdge("a", "b", 1);
+      multi.addEdge("a", "b", 3);
+      expect([...multi.links()]).toEqual([
+        { source: "a", target: "b", weight: 1, id: 0 },
+        { source: "a", target: "b", weight: 3, id: 1 },
+      ]);
+    });
   });
 
   describe("Edge Weights", () => {
@@ -413,6 +790,165 @@ describe("Graph", () => {
       graph.addEdge("a", "b");
       expect(graph.getEdgeWeight("a", "b")).toBe(1);
     });
+
+    it("Should keep weights of numeric and string ids apart.", () => {
+      const graph = new Graph();
+      graph.addEdge(1, 2, 5);
+      graph.addEdge("1", "2", 7);
+      expect(graph.getEdgeWeight(1, 2)).toBe(5);
+      expect(graph.getEdgeWeight("1", "2")).toBe(7);
+    });
+
+    it("Should keep weights of ids containing separators apart.", () => {
+      const graph = new Graph();
+      graph.addEdge("a|b", "c", 5);
+      graph.addEdge("a", "b|c", 7);
+      expect(graph.getEdgeWeight("a|b", "c")).toBe(5);
+      expect(graph.getEdgeWeight("a", "b|c")).toBe(7);
+    });
+
+    it("Should forget weights of removed edges.", () => {
+      const graph = new Graph();
+      graph.addEdge("a", "b", 5);
+      graph.removeEdge("a", "b");
+      graph.addEdge("a", "b");
+      expect(graph.getEdgeWeight("a", "b")).toBe(1);
+
+      graph.setEdgeWeight("a", "b", 5);
+      graph.addEdge("b", "a", 3);
+      graph.removeNode("a");
+      graph.addEdge("a", "b").addEdge("b", "a");
+      expect(graph.getEdgeWeight("a", "b")).toBe(1);
+      expect(graph.getEdgeWeight("b", "a")).toBe(1);
+
+      graph.setEdgeWeight("a", "b", 5);
+      graph.reset();
+      graph.addEdge("a", "b");
+      expect(graph.getEdgeWeight("a", "b")).toBe(1);
+    });
+
+    it("Should forget weights of removed undirected edges.", () => {
+      const graph = new UndirectedGraph();
+      graph.addEdge("a", "b", 5);
+      graph.removeEdge("b", "a");
+      graph.addEdge("a", "b");
+      expect(graph.getEdgeWeight("a", "b")).toBe(1);
+      expect(graph.getEdgeWeight("b", "a")).toBe(1);
+    });
+
+    it("Should ignore weights of missing edges.", () => {
+      [new Graph(), new UndirectedGraph(), new MultiGraph()].forEach(
+        (graph) => {
+          const listener = jest.fn();
+          graph.on("change", listener);
+          graph.setEdgeWeight("a", "b", 5);
+          expect(listener).not.toHaveBeenCalled();
+          expect(graph.nodes).toEqual([]);
+
+          graph.addEdge("a", "b");
+          expect(graph.getEdgeWeight("a", "b")).toBe(1);
+        }
+      );
+    });
+  });
+
+  describe("Data payloads", () => {
+    it("Should set and get node data.", () => {
+      const graph = new Graph<{ label: string }>();
+      graph.addNode("a", { label: "A" });
+      graph.addNode("b");
+      graph.setNodeData("b", { label: "B" });
+
+      expect(graph.getNodeData("a")).toEqual({ label: "A" });
+      expect(graph.getNodeData("b")).toEqual({ label: "B" });
+      expect(graph.getNodeData("c")).toBeUndefined();
+    });
+
+    it("Should keep node data when a node is added again.", () => {
+      const graph = new Graph<string>();
+      graph.addNode("a", "A");
+      graph.addNode("a");
+      expect(graph.getNodeData("a")).toBe("A");
+    });
+
+    it("Should set and get edge data.", () => {
+      const graph = new Graph<unknown, { kind: string }>();
+      graph.addEdge("a", "b", 2, { kind: "runtime" });
+      graph.addEdge("b", "c");
+      graph.setEdgeData("b", "c", { kind: "dev" });
+
+      expect(graph.getEdgeData("a", "b")).toEqual({ kind: "runtime" });
+      expect(graph.getEdgeData("b", "c")).toEqual({ kind: "dev" });
+      expect(graph.getEdgeData("c", "b")).toBeUndefined();
+      expect(graph.getEdgeWeight("a", "b")).toBe(2);
+    });
+
+    it("Should delete edge data when the edge is removed.", () => {
+      const graph = new Graph<unknown, string>();
+      graph.addEdge("a", "b", undefined, "ab");
+      graph.removeEdge("a", "b");
+      graph.addEdge("a", "b");
+      expect(graph.getEdgeData("a", "b")).toBeUndefined();
+    });
+
+    it("Should delete node and edge data when the node is removed.", () => {
+      const graph = new Graph<string, string>();
+      graph.addNode("a", "A").addNode("b", "B").addNode("c", "C");
+      graph.addEdge("a", "b", undefined, "ab");
+      graph.addEdge("b", "c", undefined, "bc");
+      graph.removeNode("b");
+      graph.addEdge("a", "b");
+      graph.addEdge("b", "c");
+
+      expect(graph.getNodeData("a")).toBe("A");
+      expect(graph.getNodeData("b")).toBeUndefined();
+      expect(graph.getEdgeData("a", "b")).toBeUndefined();
+      expect(graph.getEdgeData("b", "c")).toBeUndefined();
+    });
+
+    it("Should clear data on reset.", () => {
+      const graph = new Graph<string, string>();
+      graph.addEdge("a", "b", undefined, "ab");
+      graph.setNodeData("a", "A");
+      graph.reset();
+
+      expect(graph.getNodeData("a")).toBeUndefined();
+      expect(graph.getEdgeData("a", "b")).toBeUndefined();
+    });
+
+    it("Should round-trip data through serialize and deserialize.", () => {
+      const graph = new Graph<{ size: number }, string[]>();
+      graph.addNode("a", { size: 1 });
+      graph.addEdge("a", "b", 3, ["x", "y"]);
+
+      const serialized = graph.serialize();
+      expect(serialized.nodes).toEqual([
+        { id: "a", data: { size: 1 } },
+        { id: "b" },
+      ]);
+      expect(serialized.links).toEqual([
+        { source: "a", target: "b", weight: 3, data: ["x", "y"] },
+      ]);
+
+      const copy = new Graph(serialized);
+      expect(copy.getNodeData("a")).toEqual({ size: 1 });
+      expect(copy.getNodeData("b")).toBeUndefined();
+      expect(copy.getEdgeData("a", "b")).toEqual(["x", "y"]);
+      expect(copy.getEdgeWeight("a", "b")).toBe(3);
+    });
+
+    it("Should store undirected edge data in both directions.", () => {
+      const graph = new UndirectedGraph<unknown, string>();
+      graph.addEdge("a", "b", undefined, "ab");
+      expect(graph.getEdgeData("b", "a")).toBe("ab");
+
+      graph.setEdgeData("b", "a", "ba");
+      expect(graph.getEdgeData("a", "b")).toBe("ba");
+
+      graph.removeEdge("b", "a");
+      expect(graph.getEdgeData("a", "b")).toBeUndefined();
+      expect(graph.getEdgeData("b", "a")).toBeUndefined();
+    });
   });
 
   describe("Dijkstra's Shortest Path Algorithm", () => {
@@ -485,6 +1021,1595 @@ describe("Graph", () => {
     });
   });
 
+  describe("Single-source shortest paths", () => {
+    it("Should compute the distance and predecessor tree.", () => {
+      const graph = new Graph();
+      graph.addEdge("s", "t", 10);
+      graph.addEdge("s", "y", 5);
+      graph.addEdge("t", "y", 2);
+      graph.addEdge("y", "t", 3);
+      graph.addEdge("t", "x", 1);
+      graph.addEdge("y", "x", 9);
+      graph.addEdge("y", "z", 2);
+      graph.addEdge("x", "z", 4);
+      graph.addEdge("z", "x", 6);
+      graph.addNode("u");
+
+      const paths = graph.shortestPaths("s");
+      expect(paths.source).toBe("s");
+      expect(paths.distances).toEqual(
+        new Map([
+          ["s", 0],
+          ["t", 8],
+          ["y", 5],
+          ["x", 9],
+          ["z", 7],
+          ["u", Infinity],
+        ])
+      );
+      expect(paths.predecessors.get("x")).toBe("t");
+      expect(paths.pathTo("x")).toStrictEqual(
+        withWeight(["s", "y", "t", "x"], 9)
+      );
+      expect(paths.pathTo("s")).toStrictEqual(withWeight(["s"], 0));
+      expect(() => paths.pathTo("u")).toThrow(/No path/);
+      expect(() => paths.pathTo("v")).toThrow(/Destination node/);
+    });
+
+    it("Should keep numeric node ids.", () => {
+      const graph = new Graph();
+      graph.addEdge(0, 1, 4);
+      graph.addEdge(0, 2, 1);
+      graph.addEdge(2, 1, 1);
+
+      const path = graph.shortestPath(0, 1);
+      expect([...path]).toEqual([0, 2, 1]);
+      expect(path.weight).toBe(2);
+      expect(graph.shortestPaths(0).predecessors.get(1)).toBe(2);
+    });
+
+    it("Should throw error if source node not in graph.", () => {
+      const graph = new Graph();
+      expect(() => graph.shortestPaths("a")).toThrow(/Source node/);
+    });
+  });
+
+  describe("Bellman-Ford Shortest Path Algorithm", () => {
+    // Cormen et al. "Introduction to Algorithms" 3rd Ed. p. 652
+    function cormenGraph() {
+      const graph = new Graph();
+      graph.addEdge("s", "t", 6);
+      graph.addEdge("s", "y", 7);
+      graph.addEdge("t", "x", 5);
+      graph.addEdge("t", "y", 8);
+      graph.addEdge("t", "z", -4);
+      graph.addEdge("x", "t", -2);
+      graph.addEdge("y", "x", -3);
+      graph.addEdge("y", "z", 9);
+      graph.addEdge("z", "x", 7);
+      graph.addEdge("z", "s", 2);
+      return graph;
+    }
+
+    it("Should compute shortest paths with negative weights.", () => {
+      const paths = cormenGraph().bellmanFord("s");
+      expect(paths.distances).toEqual(
+        new Map([
+          ["s", 0],
+          ["t", 2],
+          ["y", 7],
+          ["x", 4],
+          ["z", -2],
+        ])
+      );
+      expect(paths.pathTo("z")).toStrictEqual(
+        withWeight(["s", "y", "x", "t", "z"], -2)
+      );
+    });
+
+    it("Should route shortestPath to Bellman-Ford on negative weights.", () => {
+      const graph = cormenGraph();
+      expect(graph.hasNegativeEdgeWeights()).toBe(true);
+      expect(graph.shortestPath("s", "t")).toStrictEqual(
+        withWeight(["s", "y", "x", "t"], 2)
+      );
+      expect(graph.shortestPaths("s").distances.get("z")).toBe(-2);
+    });
+
+    it("Should match Dijkstra on non-negative weights.", () => {
+      const graph = new Graph();
+      graph.addEdge("a", "b", 1);
+      graph.addEdge("b", "c", 2);
+      graph.addEdge("a", "c", 4);
+      expect(graph.hasNegativeEdgeWeights()).toBe(false);
+      expect(graph.bellmanFord("a").distances).toEqual(
+        graph.shortestPaths("a").distances
+      );
+    });
+
+    it("Should report a reachable negative cycle.", () => {
+      const graph = new Graph();
+      graph.addEdge("s", "a", 1);
+      graph.addEdge("a", "b", 1);
+      graph.addEdge("b", "c", -3);
+      graph.addEdge("c", "a", 1);
+      graph.addEdge("c", "t", 1);
+
+      expect(() => graph.shortestPath("s", "t")).toThrow(NegativeCycleError);
+      try {
+        graph.bellmanFord("s");
+      } catch (error) {
+        expect(error).toBeInstanceOf(NegativeCycleError);
+        const cycle = (error as NegativeCycleError).cycle;
+        expect(cycle.length).toBe(3);
+        expect(new Set(cycle)).toEqual(new Set(["a", "b", "c"]));
+        cycle.forEach((node, i) => {
+          expect(graph.hasEdge(node, cycle[(i + 1) % cycle.length])).toBe(true);
+        });
+        expect((error as Error).message).toMatch(/Negative cycle/);
+      }
+    });
+
+    it("Should ignore negative cycles that cannot be reached.", () => {
+      const graph = new Graph();
+      graph.addEdge("s", "t", 2);
+      graph.addEdge("a", "b", -1);
+      graph.addEdge("b", "a", -1);
+      expect(graph.shortestPath("s", "t")).toStrictEqual(
+        withWeight(["s", "t"], 2)
+      );
+    });
+
+    it("Should throw error if source node not in graph.", () => {
+      const graph = new Graph();
+      expect(() => graph.bellmanFord("a")).toThrow(/Source node/);
+    });
+  });
+
+  describe("All-pairs shortest paths", () => {
+    // Cormen et al. "Introduction to Algorithms" 3rd Ed. p. 690
+    function cormenGraph() {
+      const graph = new Graph();
+      graph.addEdge(1, 2, 3);
+      graph.addEdge(1, 3, 8);
+      graph.addEdge(1, 5, -4);
+      graph.addEdge(2, 4, 1);
+      graph.addEdge(2, 5, 7);
+      graph.addEdge(3, 2, 4);
+      graph.addEdge(4, 1, 2);
+      graph.addEdge(4, 3, -5);
+      graph.addEdge(5, 4, 6);
+      return graph;
+    }
+
+    const expectedDistances = [
+      [0, 1, -3, 2, -4],
+      [3, 0, -4, 1, -1],
+      [7, 4, 0, 5, 3],
+      [2, -1, -5, 0, -2],
+      [8, 5, 1, 6, 0],
+    ];
+
+    (["floyd-warshall", "johnson"] as const).forEach((algorithm) => {
+      describe(algorithm, () => {
+        it("Should compute the distance matrix.", () => {
+          const paths = cormenGraph().allPairsShortestPaths({ algorithm });
+          expect(paths.algorithm).toBe(algorithm);
+          expect(paths.nodes).toEqual([1, 2, 3, 5, 4]);
+
+          const order = [1, 2, 3, 4, 5];
+          order.forEach((u, i) => {
+            order.forEach((v, j) => {
+              expect(paths.distance(u, v)).toBe(expectedDistances[i][j]);
+            });
+          });
+        });
+
+        it("Should reconstruct paths and next hops.", () => {
+          const paths = cormenGraph().allPairsShortestPaths({ algorithm });
+          expect(paths.path(1, 2)).toStrictEqual(
+            Object.assign([1, 5, 4, 3, 2], { weight: 1 })
+          );
+          expect(paths.path(3, 3)).toStrictEqual(
+            Object.assign([3], { weight: 0 })
+          );
+          expect(paths.nextHop(1, 3)).toBe(5);
+          expect(paths.nextHop(2, 4)).toBe(4);
+        });
+
+        it("Should handle unreachable nodes and default weights.", () => {
+          const graph = new Graph();
+          graph.addEdge("a", "b");
+          graph.addEdge("b", "c");
+          graph.addNode("d");
+          const paths = graph.allPairsShortestPaths({ algorithm });
+
+          expect(paths.distance("a", "c")).toBe(2);
+          expect(paths.distance("c", "a")).toBe(Infinity);
+          expect(paths.nextHop("c", "a")).toBeUndefined();
+          expect(() => paths.path("a", "d")).toThrow(/No path/);
+          expect(() => paths.distance("x", "a")).toThrow(/Source node/);
+          expect(() => paths.distance("a", "x")).toThrow(/Destination node/);
+          expect(paths.toMatrix()).toEqual([
+            [0, 1, 2, Infinity],
+            [Infinity, 0, 1, Infinity],
+            [Infinity, Infinity, 0, Infinity],
+            [Infinity, Infinity, Infinity, 0],
+          ]);
+        });
+
+        it("Should report negative cycles.", () => {
+          const graph = new Graph();
+          graph.addEdge("a", "b", 1);
+          graph.addEdge("b", "a", -2);
+          expect(() => graph.allPairsShortestPaths({ algorithm })).toThrow(
+            NegativeCycleError
+          );
+        });
+      });
+    });
+
+    it("Should agree with single-source shortest paths.", () => {
+      const graph = new Graph();
+      for (let i = 0; i < 30; i++) {
+        graph.addEdge(i, (i * 7 + 3) % 30, (i % 5) + 1);
+        graph.addEdge(i, (i * 11 + 1) % 30, (i % 3) + 2);
+      }
+      const paths = graph.allPairsShortestPaths();
+      expect(paths.algorithm).toBe("johnson");
+
+      graph.nodes.forEach((u) => {
+        const single = graph.shortestPaths(u);
+        graph.nodes.forEach((v) => {
+          expect(paths.distance(u, v)).toBe(single.distances.get(v));
+        });
+      });
+    });
+
+    it("Should pick Floyd-Warshall for dense graphs.", () => {
+      const graph = new Graph();
+      ["a", "b", "c"].forEach((u) => {
+        ["a", "b", "c"].forEach((v) => {
+          graph.addEdge(u, v);
+        });
+      });
+      expect(graph.allPairsShortestPaths().algorithm).toBe("floyd-warshall");
+    });
+  });
+
+  describe("A* Search Algorithm", () => {
+    // A size x size grid with edges between horizontal and vertical
+    // neighbours. Nodes are named "x,y".
+    function grid(size: number) {
+      const graph = new UndirectedGraph();
+      for (let x = 0; x < size; x++) {
+        for (let y = 0; y < size; y++) {
+          if (x + 1 < size) graph.addEdge(`${x},${y}`, `${x + 1},${y}`);
+          if (y + 1 < size) graph.addEdge(`${x},${y}`, `${x},${y + 1}`);
+        }
+      }
+      return graph;
+    }
+
+    function manhattan(target: string) {
+      const [tx, ty] = target.split(",").map(Number);
+      return (node: NodeId) => {
+        const [x, y] = String(node).split(",").map(Number);
+        return Math.abs(tx - x) + Math.abs(ty - y);
+      };
+    }
+
+    it("Should find the same path weight as Dijkstra with fewer expansions.", () => {
+      const graph = grid(20);
+      const dijkstra = graph.aStar("0,0", "19,0", () => 0);
+      const aStar = graph.aStar("0,0", "19,0", manhattan("19,0"));
+
+      expect(aStar.weight).toBe(19);
+      expect(dijkstra.weight).toBe(19);
+      expect(graph.shortestPath("0,0", "19,0").weight).toBe(19);
+      expect(aStar.length).toBe(20);
+      expect(aStar.expanded).toBe(20);
+      expect(dijkstra.expanded).toBeGreaterThan(100);
+    });
+
+    it("Should return shortest path shape with weights.", () => {
+      const graph = new Graph();
+      graph.addEdge("s", "t", 10);
+      graph.addEdge("s", "y", 5);
+      graph.addEdge("t", "y", 2);
+      graph.addEdge("y", "t", 3);
+      graph.addEdge("t", "x", 1);
+      graph.addEdge("y", "x", 9);
+      graph.addEdge("y", "z", 2);
+      graph.addEdge("x", "z", 4);
+      graph.addEdge("z", "x", 6);
+
+      const path = graph.aStar("s", "x", () => 0);
+      expect([...path]).toEqual(["s", "y", "t", "x"]);
+      expect(path.weight).toBe(9);
+    });
+
+    it("Should find the shortest path with an inconsistent heuristic.", () => {
+      const graph = new Graph();
+      graph.addEdge("s", "a", 1);
+      graph.addEdge("s", "b", 4);
+      graph.addEdge("a", "b", 1);
+      graph.addEdge("b", "t", 4);
+      // Admissible, but inconsistent on the edge (s, a).
+      const estimates: Record<string, number> = { s: 5, a: 5, b: 1, t: 0 };
+
+      const path = graph.aStar("s", "t", (node) => estimates[node]);
+      expect([...path]).toEqual(["s", "a", "b", "t"]);
+      expect(path.weight).toBe(6);
+    });
+
+    it("Should throw errors for unknown nodes and missing paths.", () => {
+      const graph = new Graph();
+      graph.addEdge("a", "b");
+      graph.addNode("c");
+      expect(() => graph.aStar("x", "b", () => 0)).toThrow(/Source node/);
+      expect(() => graph.aStar("a", "x", () => 0)).toThrow(/Destination node/);
+      expect(() => graph.aStar("a", "c", () => 0)).toThrow(/No path/);
+    });
+
+    it("Should throw for negative edge weights.", () => {
+      const graph = new Graph();
+      graph.addEdge("s", "a", 1).addEdge("s", "b", 2).addEdge("b", "a", -5);
+      const path = graph.shortestPath("s", "a");
+      expect([...path]).toEqual(["s", "b", "a"]);
+      expect(path.weight).toBe(-3);
+      expect(() => graph.aStar("s", "a", () => 0)).toThrow(
+        "Negative edge weights are not supported"
+      );
+    });
+  });
+
+  describe("K shortest paths", () => {
+    // Example from Wikipedia's article on Yen's algorithm.
+    function yenGraph() {
+      const graph = new Graph();
+      graph.addEdge("C", "D", 3);
+      graph.addEdge("C", "E", 2);
+      graph.addEdge("D", "F", 4);
+      graph.addEdge("E", "D", 1);
+      graph.addEdge("E", "F", 2);
+      graph.addEdge("E", "G", 3);
+      graph.addEdge("F", "G", 2);
+      graph.addEdge("F", "H", 1);
+      graph.addEdge("G", "H", 2);
+      return graph;
+    }
+
+    it("Should compute the k shortest loopless paths.", () => {
+      const paths = yenGraph().kShortestPaths("C", "H", 3);
+      expect(paths).toStrictEqual([
+        withWeight(["C", "E", "F", "H"], 5),
+        withWeight(["C", "E", "G", "H"], 7),
+        withWeight(["C", "D", "F", "H"], 8),
+      ]);
+    });
+
+    it("Should return fewer paths if not enough exist.", () => {
+      const graph = yenGraph();
+      const paths = graph.kShortestPaths("C", "H", 100);
+      expect(paths.length).toBe([...graph.simplePaths("C", "H")].length);
+      expect(paths.length).toBe(7);
+      paths.forEach((path, i) => {
+        expect(new Set(path).size).toBe(path.length);
+        if (i > 0) {
+          expect(path.weight).toBeGreaterThanOrEqual(
+            paths[i - 1].weight as number
+          );
+        }
+      });
+    });
+
+    it("Should return no paths if the target is unreachable.", () => {
+      const graph = yenGraph();
+      expect(graph.kShortestPaths("H", "C", 3)).toEqual([]);
+      expect(graph.kShortestPaths("C", "H", 0)).toEqual([]);
+    });
+
+    it("Should reject negative weights and unknown nodes.", () => {
+      const graph = yenGraph();
+      expect(() => graph.kShortestPaths("X", "H", 1)).toThrow(/Source node/);
+      expect(() => graph.kShortestPaths("C", "X", 1)).toThrow(
+        /Destination node/
+      );
+      graph.setEdgeWeight("C", "D", -1);
+      expect(() => graph.kShortestPaths("C", "H", 1)).toThrow(/Negative/);
+    });
+  });
+
+  describe("Simple paths", () => {
+    it("Should enumerate all simple paths.", () => {
+      const graph = new Graph();
+      graph.addEdge("a", "b", 1);
+      graph.addEdge("a", "c", 2);
+      graph.addEdge("b", "c", 3);
+      graph.addEdge("c", "b", 4);
+      graph.addEdge("b", "d", 5);
+      graph.addEdge("c", "d", 6);
+
+      expect([...graph.simplePaths("a", "d")]).toStrictEqual([
+        withWeight(["a", "b", "c", "d"], 10),
+        withWeight(["a", "b", "d"], 6),
+        withWeight(["a", "c", "b", "d"], 11),
+        withWeight(["a", "c", "d"], 8),
+      ]);
+      expect([...graph.simplePaths("a", "a")]).toStrictEqual([
+        withWeight(["a"], 0),
+      ]);
+      expect([...graph.simplePaths("d", "a")]).toEqual([]);
+    });
+
+    it("Should limit path length and count.", () => {
+      const graph = new Graph();
+      graph.addEdge("a", "b");
+      graph.addEdge("b", "c");
+      graph.addEdge("a", "c");
+
+      expect([...graph.simplePaths("a", "c", { maxLength: 1 })]).toStrictEqual([
+        withWeight(["a", "c"], 1),
+      ]);
+      expect([...graph.simplePaths("a", "c", { maxCount: 1 })]).toStrictEqual([
+        withWeight(["a", "b", "c"], 2),
+      ]);
+      expect([...graph.simplePaths("a", "c", { maxLength: 0 })]).toEqual([]);
+    });
+
+    it("Should enumerate lazily on dense graphs.", () => {
+      const graph = new Graph();
+      for (let u = 0; u < 20; u++) {
+        for (let v = 0; v < 20; v++) {
+          if (u !== v) graph.addEdge(u, v);
+        }
+      }
+
+      // Enumerating every path here would never finish.
+      const paths = graph.simplePaths(0, 19);
+      const first = paths.next().value as NodeId[];
+      expect(first.length).toBe(20);
+      expect(first[0]).toBe(0);
+      expect(first[19]).toBe(19);
+      expect([...graph.simplePaths(0, 19, { maxCount: 1000 })].length).toBe(
+        1000
+      );
+    });
+
+    it("Should throw error for unknown nodes.", () => {
+      const graph = new Graph();
+      graph.addEdge("a", "b");
+      expect(() => graph.simplePaths("x", "b").next()).toThrow(/Source node/);
+      expect(() => graph.simplePaths("a", "x").next()).toThrow(
+        /Destination node/
+      );
+    });
+  });
+
+  describe("Strongly connected components", () => {
+    // Cormen et al. "Introduction to Algorithms" 3rd Ed. p. 616
+    function cormenGraph() {
+      const graph = new Graph();
+      graph.addEdge("a", "b");
+      graph.addEdge("b", "c");
+      graph.addEdge("b", "e");
+      graph.addEdge("b", "f");
+      graph.addEdge("c", "d");
+      graph.addEdge("c", "g");
+      graph.addEdge("d", "c");
+      graph.addEdge("d", "h");
+      graph.addEdge("e", "a");
+      graph.addEdge("e", "f");
+      graph.addEdge("f", "g");
+      graph.addEdge("g", "f");
+      graph.addEdge("g", "h");
+      graph.addEdge("h", "h");
+      return graph;
+    }
+
+    it("Should compute components in topological order.", () => {
+      expect(cormenGraph().stronglyConnectedComponents()).toEqual([
+        ["a", "b", "e"],
+        ["c", "d"],
+        ["g", "f"],
+        ["h"],
+      ]);
+    });
+
+    it("Should return singleton components for DAGs.", () => {
+      const graph = new Graph();
+      graph.addEdge(1, 2);
+      graph.addEdge(1, 3);
+      graph.addEdge(3, 2);
+      expect(graph.stronglyConnectedComponents()).toEqual([[1], [3], [2]]);
+    });
+
+    it("Should compute the condensation DAG.", () => {
+      const graph = cormenGraph();
+      const dag = graph.condensation();
+
+      expect(dag.nodes).toEqual([0, 1, 2, 3]);
+      expect(dag.getNodeData(0)).toEqual(["a", "b", "e"]);
+      expect(dag.getNodeData(3)).toEqual(["h"]);
+      expect(dag.adjacent(0)).toEqual([1, 2]);
+      expect(dag.adjacent(1)).toEqual([2, 3]);
+      expect(dag.adjacent(2)).toEqual([3]);
+      expect(dag.adjacent(3)).toEqual([]);
+      expect(dag.hasCycle()).toBe(false);
+      expect(graph.hasCycle()).toBe(true);
+
+      const order = dag
+        .topologicalSort()
+        .map((component) => dag.getNodeData(component));
+      expect(order).toEqual([["a", "b", "e"], ["c", "d"], ["g", "f"], ["h"]]);
+    });
+
+    it("Should handle an empty graph.", () => {
+      const graph = new Graph();
+      expect(graph.stronglyConnectedComponents()).toEqual([]);
+      expect(graph.condensation().nodes).toEqual([]);
+    });
+  });
+
+  describe("Weakly connected components", () => {
+    it("Should ignore edge direction.", () => {
+      const graph = new Graph();
+      graph.addEdge("a", "b");
+      graph.addEdge("c", "b");
+      graph.addEdge("d", "e");
+      graph.addEdge("f", "e");
+      graph.addEdge("c", "g");
+      graph.addNode("h");
+
+      expect(graph.weaklyConnectedComponents()).toEqual([
+        ["a", "b", "c", "g"],
+        ["d", "e", "f"],
+        ["h"],
+      ]);
+    });
+
+    it("Should match findComponents on undirected graphs.", () => {
+      const graph = new UndirectedGraph();
+      graph.addEdge("a", "b");
+      graph.addEdge("b", "c");
+      graph.addEdge("e", "f");
+      graph.addEdge("d", "d");
+
+      expect(graph.weaklyConnectedComponents()).toEqual(graph.findComponents());
+    });
+
+    it("Should split a graph into component graphs.", () => {
+      const graph = new Graph<string, string>();
+      graph.addEdge("a", "b", 3, "ab");
+      graph.addEdge("b", "c");
+      graph.addEdge("d", "e", 5);
+      graph.setNodeData("d", "D");
+
+      const [first, second] = graph.splitComponents();
+      expect(first).toBeInstanceOf(Graph);
+      expect(first.serialize()).toEqual({
+        nodes: [{ id: "a" }, { id: "b" }, { id: "c" }],
+        links: [
+          { source: "a", target: "b", weight: 3, data: "ab" },
+          { source: "b", target: "c", weight: 1 },
+        ],
+      });
+      expect(second.serialize()).toEqual({
+        nodes: [{ id: "d", data: "D" }, { id: "e" }],
+        links: [{ source: "d", target: "e", weight: 5 }],
+      });
+    });
+
+    it("Should split undirected graphs into undirected graphs.", () => {
+      const graph = new UndirectedGraph();
+      graph.addEdge("a", "b", 2);
+      graph.addEdge("c", "d");
+
+      const components = graph.splitComponents();
+      expect(components.length).toBe(2);
+      expect(components[0]).toBeInstanceOf(UndirectedGraph);
+      expect(components[0].adjacent("a")).toEqual(["b"]);
+      expect(components[0].adjacent("b")).toEqual(["a"]);
+      expect(components[0].getEdgeWeight("b", "a")).toBe(2);
+    });
+
+    it("Should create induced subgraphs.", () => {
+      const graph = new Graph();
+      graph.addEdge("a", "b");
+      graph.addEdge("b", "c");
+      graph.addEdge("c", "a");
+
+      const subgraph = graph.subgraph(["a", "b", "x"]);
+      expect(subgraph.nodes).toEqual(["a", "b"]);
+      expect(subgraph.adjacent("a")).toEqual(["b"]);
+      expect(subgraph.adjacent("b")).toEqual([]);
+    });
+  });
+
+  describe("Minimum spanning forest", () => {
+    // Cormen et al. "Introduction to Algorithms" 3rd Ed. p. 632
+    function cormenGraph() {
+      const graph = new UndirectedGraph();
+      graph.addEdge("a", "b", 4);
+      graph.addEdge("a", "h", 8);
+      graph.addEdge("b", "c", 8);
+      graph.addEdge("b", "h", 11);
+      graph.addEdge("c", "d", 7);
+      graph.addEdge("c", "f", 4);
+      graph.addEdge("c", "i", 2);
+      graph.addEdge("d", "e", 9);
+      graph.addEdge("d", "f", 14);
+      graph.addEdge("e", "f", 10);
+      graph.addEdge("f", "g", 2);
+      graph.addEdge("g", "h", 1);
+      graph.addEdge("g", "i", 6);
+      graph.addEdge("h", "i", 7);
+      return graph;
+    }
+
+    function edgeCount(graph: Graph) {
+      return graph.nodes.reduce(
+        (count: number, node) => count + graph.adjacent(node).length,
+        0
+      );
+    }
+
+    (["kruskal", "prim"] as const).forEach((algorithm) => {
+      it(`Should compute a minimum spanning tree with ${algorithm}.`, () => {
+        const graph = cormenGraph();
+        const { graph: tree, weight } = graph[algorithm]();
+
+        expect(weight).toBe(37);
+        expect(tree).toBeInstanceOf(UndirectedGraph);
+        expect(tree.nodes.length).toBe(9);
+        expect(edgeCount(tree)).toBe(2 * 8);
+        expect(tree.findComponents().length).toBe(1);
+        expect(tree.hasEdge("g", "h")).toBe(true);
+        expect(tree.hasEdge("h", "g")).toBe(true);
+        expect(tree.getEdgeWeight("h", "g")).toBe(1);
+        expect(tree.hasEdge("b", "h")).toBe(false);
+      });
+
+      it(`Should compute a minimum spanning forest with ${algorithm}.`, () => {
+        const graph = new UndirectedGraph<string, string>();
+        graph.addEdge("a", "b", 1, "ab");
+        graph.addEdge("b", "c", 2);
+        graph.addEdge("a", "c", 3);
+        graph.addEdge("d", "e", 5);
+        graph.addNode("f", "F");
+
+        const { graph: forest, weight } = graph[algorithm]();
+        expect(weight).toBe(8);
+        expect(forest.findComponents().length).toBe(3);
+        expect(forest.hasEdge("a", "c")).toBe(false);
+        expect(forest.getEdgeData("b", "a")).toBe("ab");
+        expect(forest.getNodeData("f")).toBe("F");
+      });
+    });
+  });
+
+  describe("Maximum flow", () => {
+    // Cormen et al. "Introduction to Algorithms" 3rd Ed. p. 726
+    function cormenNetwork() {
+      const graph = new Graph();
+      graph.addEdge("s", "v1", 16);
+      graph.addEdge("s", "v2", 13);
+      graph.addEdge("v1", "v3", 12);
+      graph.addEdge("v2", "v1", 4);
+      graph.addEdge("v2", "v4", 14);
+      graph.addEdge("v3", "v2", 9);
+      graph.addEdge("v3", "t", 20);
+      graph.addEdge("v4", "v3", 7);
+      graph.addEdge("v4", "t", 4);
+      return graph;
+    }
+
+    // Checks capacity constraints and flow conservation.
+    function expectValidFlow(
+      graph: Graph,
+      flows: { source: NodeId; target: NodeId; flow: number }[],
+      source: NodeId,
+      sink: NodeId,
+      value: number
+    ) {
+      const balance = new Map<NodeId, number>();
+      flows.forEach(({ source, target, flow }) => {
+        expect(flow).toBeGreaterThanOrEqual(0);
+        expect(flow).toBeLessThanOrEqual(graph.getEdgeWeight(source, target));
+        balance.set(source, (balance.get(source) ?? 0) - flow);
+        balance.set(target, (balance.get(target) ?? 0) + flow);
+      });
+      graph.nodes.forEach((node) => {
+        const expected = node === source ? -value : node === sink ? value : 0;
+        expect(balance.get(node) ?? 0).toBe(expected);
+      });
+    }
+
+    it("Should compute the maximum flow of the textbook network.", () => {
+      const graph = cormenNetwork();
+      const result = graph.maxFlow("s", "t");
+
+      expect(result.value).toBe(23);
+      expect(result.flows.length).toBe(9);
+      expectValidFlow(graph, result.flows, "s", "t", 23);
+    });
+
+    it("Should compute a minimum cut.", () => {
+      const result = cormenNetwork().maxFlow("s", "t");
+
+      expect(result.sourceSide).toEqual(["s", "v1", "v2", "v4"]);
+      expect(result.sinkSide).toEqual(["v3", "t"]);
+      expect(result.cutEdges).toEqual([
+        { source: "v1", target: "v3", weight: 12 },
+        { source: "v4", target: "v3", weight: 7 },
+        { source: "v4", target: "t", weight: 4 },
+      ]);
+      expect(
+        result.cutEdges.reduce((total, edge) => total + edge.weight, 0)
+      ).toBe(result.value);
+    });
+
+    it("Should handle antiparallel edges and default capacities.", () => {
+      const graph = new Graph();
+      graph.addEdge("s", "a");
+      graph.addEdge("s", "b", 2);
+      graph.addEdge("a", "b", 3);
+      graph.addEdge("b", "a", 3);
+      graph.addEdge("a", "t", 2);
+      graph.addEdge("b", "t");
+
+      const result = graph.maxFlow("s", "t");
+      expect(result.value).toBe(3);
+      expectValidFlow(graph, result.flows, "s", "t", 3);
+    });
+
+    it("Should treat undirected edges as capacities in both directions.", () => {
+      const graph = new UndirectedGraph();
+      graph.addEdge("s", "a", 3);
+      graph.addEdge("a", "t", 2);
+      graph.addEdge("s", "b", 1);
+      graph.addEdge("b", "a", 5);
+      graph.addEdge("b", "t", 4);
+
+      expect(graph.maxFlow("s", "t").value).toBe(4);
+      expect(graph.maxFlow("t", "s").value).toBe(4);
+    });
+
+    it("Should return zero flow if the sink is unreachable.", () => {
+      const graph = new Graph();
+      graph.addEdge("s", "a", 5);
+      graph.addEdge("t", "a", 5);
+
+      const result = graph.maxFlow("s", "t");
+      expect(result.value).toBe(0);
+      expect(result.sourceSide).toEqual(["s", "a"]);
+      expect(result.cutEdges).toEqual([]);
+    });
+
+    it("Should reject invalid input.", () => {
+      const graph = new Graph();
+      graph.addEdge("s", "t", -1);
+      expect(() => graph.maxFlow("x", "t")).toThrow(/Source node/);
+      expect(() => graph.maxFlow("s", "x")).toThrow(/Sink node/);
+      expect(() => graph.maxFlow("s", "s")).toThrow(/must differ/);
+      expect(() => graph.maxFlow("s", "t")).toThrow(/Negative/);
+
+      graph.setEdgeWeight("s", "t", Infinity);
+      expect(() => graph.maxFlow("s", "t")).toThrow(/unbounded/);
+    });
+  });
+
+  describe("Traversal iterators", () => {
+    //      a
+    //     / \
+    //    b   c
+    //   / \   \
+    //  d   e - f
+    function tree() {
+      const graph = new Graph();
+      graph.addEdge("a", "b");
+      graph.addEdge("a", "c");
+      graph.addEdge("b", "d");
+      graph.addEdge("b", "e");
+      graph.addEdge("c", "f");
+      graph.addEdge("e", "f");
+      return graph;
+    }
+
+    it("Should traverse breadth-first with depths and parents.", () => {
+      expect([...tree().bfs("a")]).toEqual([
+        { node: "a", depth: 0 },
+        { node: "b", depth: 1, parent: "a" },
+        { node: "c", depth: 1, parent: "a" },
+        { node: "d", depth: 2, parent: "b" },
+        { node: "e", depth: 2, parent: "b" },
+        { node: "f", depth: 2, parent: "c" },
+      ]);
+    });
+
+    it("Should compute unweighted hop counts.", () => {
+      const graph = tree();
+      graph.addEdge("a", "f", 100);
+      const hops = new Map(
+        [...graph.bfs("a")].map(({ node, depth }) => [node, depth])
+      );
+      expect(hops.get("f")).toBe(1);
+      expect(hops.get("e")).toBe(2);
+    });
+
+    it("Should traverse depth-first in pre- and post-order.", () => {
+      const graph = tree();
+      expect([...graph.dfs("a")].map(({ node }) => node)).toEqual([
+        "a",
+        "b",
+        "d",
+        "e",
+        "f",
+        "c",
+      ]);
+      expect(
+        [...graph.dfs("a", { order: "post" })].map(({ node }) => node)
+      ).toEqual(["d", "f", "e", "b", "c", "a"]);
+      expect([...graph.dfs("a")][4]).toEqual({
+        node: "f",
+        depth: 3,
+        parent: "e",
+      });
+    });
+
+    it("Should match depthFirstSearch post-order.", () => {
+      const graph = tree();
+      expect(
+        [...graph.dfs(graph.nodes, { order: "post" })].map(({ node }) => node)
+      ).toEqual(graph.depthFirstSearch());
+    });
+
+    it("Should stop early.", () => {
+      const graph = new Graph();
+      for (let i = 1; i < 100; i++) {
+        graph.addEdge(i - 1, i);
+      }
+      const discovered: NodeId[] = [];
+      for (const { node } of graph.dfs(0, {
+        visitor: { discover: ({ node }) => discovered.push(node) },
+      })) {
+        if (node === 3) break;
+      }
+      expect(discovered).toEqual([0, 1, 2, 3]);
+
+      const bfs = graph.bfs(0);
+      expect(bfs.next().value).toEqual({ node: 0, depth: 0 });
+      expect(bfs.next().value).toEqual({ node: 1, depth: 1, parent: 0 });
+    });
+
+    it("Should respect depth limits.", () => {
+      const graph = tree();
+      expect(
+        [...graph.bfs("a", { depthLimit: 1 })].map(({ node }) => node)
+      ).toEqual(["a", "b", "c"]);
+      expect(
+        [...graph.dfs("a", { depthLimit: 1 })].map(({ node }) => node)
+      ).toEqual(["a", "b", "c"]);
+      expect([...graph.dfs("a", { depthLimit: 0 })].length).toBe(1);
+    });
+
+    it("Should call visitor hooks.", () => {
+      const graph = tree();
+      graph.addEdge("f", "b");
+      const events: string[] = [];
+      const visitor = {
+        discover: ({ node }: { node: NodeId }) =>
+          events.push(`discover ${node}`),
+        finish: ({ node }: { node: NodeId }) => events.push(`finish ${node}`),
+        treeEdge: (u: NodeId, v: NodeId) => events.push(`tree ${u}${v}`),
+        backEdge: (u: NodeId, v: NodeId) => events.push(`back ${u}${v}`),
+        crossEdge: (u: NodeId, v: NodeId) => events.push(`cross ${u}${v}`),
+      };
+
+      expect([...graph.dfs("b", { visitor })].length).toBe(4);
+      expect(events).toEqual([
+        "discover b",
+        "tree bd",
+        "discover d",
+        "finish d",
+        "tree be",
+        "discover e",
+        "tree ef",
+        "discover f",
+        "back fb",
+        "finish f",
+        "finish e",
+        "finish b",
+      ]);
+
+      events.length = 0;
+      expect([...graph.bfs("e", { visitor })].length).toBe(4);
+      expect(events).toEqual([
+        "discover e",
+        "tree ef",
+        "discover f",
+        "finish e",
+        "tree fb",
+        "discover b",
+        "finish f",
+        "tree bd",
+        "discover d",
+        "cross be",
+        "finish b",
+        "finish d",
+      ]);
+    });
+
+    it("Should traverse from several start nodes.", () => {
+      const graph = new Graph();
+      graph.addEdge("a", "b");
+      graph.addEdge("c", "b");
+      expect([...graph.bfs(["a", "c"])]).toEqual([
+        { node: "a", depth: 0 },
+        { node: "c", depth: 0 },
+        { node: "b", depth: 1, parent: "a" },
+      ]);
+      expect(() => [...graph.dfs("x")]).toThrow(/Start node/);
+    });
+  });
+
+  describe("Reachability", () => {
+    //  a -> b -> c -> d
+    //   \        ^
+    //    `-> e --'
+    function dependencies() {
+      const graph = new Graph();
+      graph.addEdge("a", "b");
+      graph.addEdge("b", "c");
+      graph.addEdge("c", "d");
+      graph.addEdge("a", "e");
+      graph.addEdge("e", "c");
+      graph.addEdge("a", "c", 7);
+      graph.addNode("f");
+      return graph;
+    }
+
+    it("Should compute descendants and ancestors.", () => {
+      const graph = dependencies();
+      expect(graph.descendants("a")).toEqual(["b", "e", "c", "d"]);
+      expect(graph.descendants("c")).toEqual(["d"]);
+      expect(graph.descendants("f")).toEqual([]);
+      expect(graph.ancestors("d")).toEqual(["c", "b", "e", "a"]);
+      expect(graph.ancestors("a")).toEqual([]);
+      expect(graph.descendants("x")).toEqual([]);
+    });
+
+    it("Should exclude the node itself on cycles.", () => {
+      const graph = new Graph();
+      graph.addEdge("a", "b");
+      graph.addEdge("b", "a");
+      expect(graph.descendants("a")).toEqual(["b"]);
+      expect(graph.ancestors("a")).toEqual(["b"]);
+    });
+
+    it("Should answer reachability queries.", () => {
+      const graph = dependencies();
+      expect(graph.isReachable("a", "d")).toBe(true);
+      expect(graph.isReachable("e", "d")).toBe(true);
+      expect(graph.isReachable("d", "a")).toBe(false);
+      expect(graph.isReachable("a", "f")).toBe(false);
+      expect(graph.isReachable("f", "f")).toBe(true);
+      expect(graph.isReachable("a", "x")).toBe(false);
+    });
+
+    it("Should compute the transitive closure.", () => {
+      const graph = dependencies();
+      const closure = graph.transitiveClosure();
+
+      expect(closure).not.toBe(graph);
+      expect(closure.adjacent("a")).toEqual(["b", "e", "c", "d"]);
+      expect(closure.adjacent("b")).toEqual(["c", "d"]);
+      expect(closure.adjacent("c")).toEqual(["d"]);
+      expect(closure.adjacent("f")).toEqual([]);
+      expect(closure.getEdgeWeight("a", "c")).toBe(7);
+      expect(graph.adjacent("b")).toEqual(["c"]);
+    });
+
+    it("Should compute the transitive reduction.", () => {
+      const graph = dependencies();
+      graph.addEdge("a", "d");
+      const reduction = graph.transitiveReduction();
+
+      expect(reduction.nodes).toEqual(graph.nodes);
+      expect(reduction.adjacent("a")).toEqual(["b", "e"]);
+      expect(reduction.adjacent("b")).toEqual(["c"]);
+      expect(reduction.adjacent("e")).toEqual(["c"]);
+      expect(reduction.adjacent("c")).toEqual(["d"]);
+      graph.nodes.forEach((u) => {
+        expect(reduction.descendants(u)).toEqual(
+          expect.arrayContaining(graph.descendants(u))
+        );
+        expect(reduction.descendants(u).length).toBe(
+          graph.descendants(u).length
+        );
+      });
+      expect(reduction.transitiveClosure().serialize().links.length).toBe(
+        graph.transitiveClosure().serialize().links.length
+      );
+    });
+
+    it("Should keep weights and data in the transitive reduction.", () => {
+      const graph = new Graph<string, string>();
+      graph.addEdge("a", "b", 2, "ab");
+      graph.addEdge("b", "c");
+      graph.addEdge("a", "c");
+      graph.setNodeData("a", "A");
+
+      const reduction = graph.transitiveReduction();
+      expect(reduction.getEdgeWeight("a", "b")).toBe(2);
+      expect(reduction.getEdgeData("a", "b")).toBe("ab");
+      expect(reduction.getNodeData("a")).toBe("A");
+      expect(reduction.hasEdge("a", "c")).toBe(false);
+    });
+
+    it("Should throw a CycleError on transitive reduction of cyclic graphs.", () => {
+      const graph = new Graph();
+      graph.addEdge("a", "b");
+      graph.addEdge("b", "a");
+      expect(() => graph.transitiveReduction()).toThrow(CycleError);
+    });
+  });
+
+  describe("Multigraphs", () => {
+    it("Should not duplicate edges in simple graphs.", () => {
+      const graph = new Graph();
+      graph.addEdge("a", "b", 3, "first");
+      graph.addEdge("a", "b");
+      expect(graph.adjacent("a")).toEqual(["b"]);
+      expect(graph.getEdgeWeight("a", "b")).toBe(3);
+      expect(graph.getEdgeData("a", "b")).toBe("first");
+
+      graph.addEdge("a", "b", 5, "second");
+      expect(graph.adjacent("a")).toEqual(["b"]);
+      expect(graph.getEdgeWeight("a", "b")).toBe(5);
+      expect(graph.getEdgeData("a", "b")).toBe("second");
+
+      graph.removeEdge("a", "b");
+      expect(graph.hasEdge("a", "b")).toBe(false);
+    });
+
+    it("Should not duplicate edges in undirected graphs.", () => {
+      const graph = new UndirectedGraph();
+      graph.addEdge("a", "b");
+      graph.addEdge("b", "a", 2);
+      expect(graph.adjacent("a")).toEqual(["b"]);
+      expect(graph.adjacent("b")).toEqual(["a"]);
+      expect(graph.getEdgeWeight("a", "b")).toBe(2);
+
+      const copy = new UndirectedGraph(graph.serialize());
+      expect(copy.adjacent("a")).toEqual(["b"]);
+    });
+
+    it("Should keep parallel edges with their own weights and data.", () => {
+      const graph = new MultiGraph<string, string>();
+      const slow = graph.createEdge("a", "b", 5, "slow");
+      const fast = graph.createEdge("a", "b", 2, "fast");
+      graph.addEdge("b", "c");
+
+      expect(slow).not.toBe(fast);
+      expect(graph.adjacent("a")).toEqual(["b"]);
+      expect(graph.edgesBetween("a", "b")).toEqual([
+        { id: slow, source: "a", target: "b", weight: 5, data: "slow" },
+        { id: fast, source: "a", target: "b", weight: 2, data: "fast" },
+      ]);
+      expect(graph.edgeList().length).toBe(3);
+      expect(graph.getEdgeWeightById(slow)).toBe(5);
+      expect(graph.getEdgeDataById(fast)).toBe("fast");
+
+      // Pair-level accessors see the lightest parallel edge.
+      expect(graph.getEdgeWeight("a", "b")).toBe(2);
+      expect(graph.getEdgeData("a", "b")).toBe("fast");
+      expect(graph.shortestPath("a", "c").weight).toBe(3);
+
+      graph.setEdgeWeightById(slow, 1);
+      expect(graph.getEdgeWeight("a", "b")).toBe(1);
+      expect(graph.getEdgeData("a", "b")).toBe("slow");
+    });
+
+    it("Should remove individual parallel edges.", () => {
+      const graph = new MultiGraph();
+      const first = graph.createEdge("a", "b", 1);
+      const second = graph.createEdge("a", "b", 2);
+
+      expect(graph.removeEdgeById(first)).toBe(true);
+      expect(graph.removeEdgeById(first)).toBe(false);
+      expect(graph.getEdge(first)).toBeUndefined();
+      expect(graph.hasEdge("a", "b")).toBe(true);
+      expect(graph.getEdgeWeight("a", "b")).toBe(2);
+
+      expect(graph.removeEdgeById(second)).toBe(true);
+      expect(graph.hasEdge("a", "b")).toBe(false);
+      expect(graph.inbound("b")).toEqual([]);
+    });
+
+    it("Should remove all parallel edges with removeEdge and removeNode.", () => {
+      const graph = new MultiGraph();
+      graph.addEdge("a", "b").addEdge("a", "b").addEdge("b", "c");
+      graph.addEdge("c", "a").addEdge("c", "a");
+
+      graph.removeEdge("a", "b");
+      expect(graph.edgesBetween("a", "b")).toEqual([]);
+      expect(graph.edgeList().length).toBe(3);
+
+      graph.removeNode("c");
+      expect(graph.edgeList()).toEqual([]);
+      expect(graph.nodes).toEqual(["a", "b"]);
+    });
+
+    it("Should reject duplicate edge ids and unknown ids.", () => {
+      const graph = new MultiGraph();
+      graph.createEdge("a", "b", undefined, undefined, "ab");
+      expect(() =>
+        graph.createEdge("b", "a", undefined, undefined, "ab")
+      ).toThrow("Edge id is already in use: ab");
+      expect(() => graph.getEdgeWeightById("x")).toThrow(
+        "Edge is not in the graph: x"
+      );
+    });
+
+    it("Should not return live edges.", () => {
+      const graph = new MultiGraph();
+      const id = graph.createEdge("a", "b", 4);
+      (graph.getEdge(id) as { weight: number }).weight = 1;
+      expect(graph.getEdgeWeightById(id)).toBe(4);
+    });
+
+    it("Should serialize and deserialize parallel edges with their ids.", () => {
+      const graph = new MultiGraph<string, string>();
+      graph.addNode("a", "A");
+      graph.createEdge("a", "b", 2, "x", "e1");
+      graph.createEdge("a", "b", 3, undefined, "e2");
+
+      const serialized = graph.serialize();
+      expect(serialized.links).toEqual([
+        { source: "a", target: "b", weight: 2, data: "x", id: "e1" },
+        { source: "a", target: "b", weight: 3, id: "e2" },
+      ]);
+
+      const copy = new MultiGraph<string, string>(serialized);
+      expect(copy.serialize()).toEqual(serialized);
+      expect(copy.getNodeData("a")).toBe("A");
+
+      // Generated ids skip ids that are already in use.
+      const generated = new MultiGraph();
+      generated.createEdge("a", "b", undefined, undefined, 0);
+      expect(generated.createEdge("a", "b")).toBe(1);
+    });
+
+    it("Should keep parallel edges in subgraphs.", () => {
+      const graph = new MultiGraph();
+      graph.addEdge("a", "b", 1).addEdge("a", "b", 2).addEdge("b", "c");
+
+      const subgraph = graph.subgraph(["a", "b"]);
+      expect(subgraph).toBeInstanceOf(MultiGraph);
+      expect(subgraph.edgeList()).toEqual(graph.edgesBetween("a", "b"));
+    });
+  });
+
+  describe("Change events", () => {
+    function record(graph: Graph) {
+      const events: GraphEvent[] = [];
+      const changes: GraphEvent[][] = [];
+      (
+        [
+          "nodeAdded",
+          "nodeRemoved",
+          "edgeAdded",
+          "edgeRemoved",
+          "edgeWeightChanged",
+          "reset",
+        ] as const
+      ).forEach((type) => {
+        graph.on(type, (event: GraphEvent) => events.push(event));
+      });
+      graph.on("change", (batch) => changes.push(batch));
+      return { events, changes };
+    }
+
+    it("Should emit events for added nodes and edges.", () => {
+      const graph = new Graph();
+      const { events, changes } = record(graph);
+      graph.addNode("a");
+      graph.addNode("a");
+      graph.addEdge("a", "b", 3);
+
+      expect(events).toEqual([
+        { type: "nodeAdded", node: "a" },
+        { type: "nodeAdded", node: "b" },
+        { type: "edgeAdded", source: "a", target: "b", weight: 3 },
+      ]);
+      // Every call is a single change.
+      expect(changes).toEqual([events.slice(0, 1), events.slice(1)]);
+    });
+
+    it("Should emit events for changed weights.", () => {
+      const graph = new Graph().addEdge("a", "b");
+      const { events } = record(graph);
+      graph.setEdgeWeight("a", "b", 2);
+      graph.setEdgeWeight("a", "b", 2);
+      graph.addEdge("a", "b", 4);
+      graph.setEdgeWeight("b", "a", 2);
+
+      expect(events).toEqual([
+        {
+          type: "edgeWeightChanged",
+          source: "a",
+          target: "b",
+          weight: 2,
+          previousWeight: 1,
+        },
+        {
+          type: "edgeWeightChanged",
+          source: "a",
+          target: "b",
+          weight: 4,
+          previousWeight: 2,
+        },
+      ]);
+    });
+
+    it("Should emit events for removed nodes and edges.", () => {
+      const graph = new Graph().addEdge("a", "b").addEdge("b", "c");
+      graph.addEdge("b", "b");
+      const { events, changes } = record(graph);
+      graph.removeEdge("a", "c");
+      graph.removeNode("d");
+      graph.removeNode("b");
+
+      expect(events).toEqual([
+        { type: "edgeRemoved", source: "a", target: "b", weight: 1 },
+        { type: "edgeRemoved", source: "b", target: "b", weight: 1 },
+        { type: "edgeRemoved", source: "b", target: "c", weight: 1 },
+        { type: "nodeRemoved", node: "b" },
+      ]);
+      expect(changes).toEqual([events]);
+    });
+
+    it("Should emit one event per undirected edge.", () => {
+      const graph = new UndirectedGraph();
+      const { events } = record(graph);
+      graph.addEdge("a", "b", 2);
+      graph.setEdgeWeight("b", "a", 5);
+      graph.removeEdge("b", "a");
+
+      expect(events).toEqual([
+        { type: "nodeAdded", node: "a" },
+        { type: "nodeAdded", node: "b" },
+        { type: "edgeAdded", source: "a", target: "b", weight: 2 },
+        {
+          type: "edgeWeightChanged",
+          source: "b",
+          target: "a",
+          weight: 5,
+          previousWeight: 2,
+        },
+        { type: "edgeRemoved", source: "b", target: "a", weight: 5 },
+      ]);
+      expect(graph.getEdgeWeight("a", "b")).toBe(1);
+    });
+
+    it("Should set undirected edge weights in both directions.", () => {
+      const graph = new UndirectedGraph().addEdge("a", "b");
+      graph.setEdgeWeight("a", "b", 5);
+      expect(graph.getEdgeWeight("b", "a")).toBe(5);
+    });
+
+    it("Should emit events with edge ids for multigraphs.", () => {
+      const graph = new MultiGraph();
+      graph.addNode("a").addNode("b");
+      const { events } = record(graph);
+      const first = graph.createEdge("a", "b", 2);
+      const second = graph.createEdge("a", "b");
+      graph.setEdgeWeightById(second, 3);
+      graph.removeEdge("a", "b");
+
+      expect(events).toEqual([
+        { type: "edgeAdded", source: "a", target: "b", weight: 2, id: first },
+        {
+          type: "edgeAdded",
+          source: "a",
+          target: "b",
+          weight: 1,
+          id: second,
+        },
+        {
+          type: "edgeWeightChanged",
+          source: "a",
+          target: "b",
+          weight: 3,
+          previousWeight: 1,
+          id: second,
+        },
+        {
+          type: "edgeRemoved",
+          source: "a",
+          target: "b",
+          weight: 2,
+          id: first,
+        },
+        {
+          type: "edgeRemoved",
+          source: "a",
+          target: "b",
+          weight: 3,
+          id: second,
+        },
+      ]);
+    });
+
+    it("Should coalesce batched changes into one notification.", () => {
+      const graph = new Graph();
+      const { events, changes } = record(graph);
+      const result = graph.batch(() => {
+        graph.addEdge("a", "b");
+        graph.batch(() => graph.addEdge("b", "c"));
+        return "done";
+      });
+
+      expect(result).toBe("done");
+      expect(events.length).toBe(5);
+      expect(changes).toEqual([events]);
+    });
+
+    it("Should notify about batched changes if the batch throws.", () => {
+      const graph = new Graph();
+      const { changes } = record(graph);
+      expect(() =>
+        graph.batch(() => {
+          graph.addNode("a");
+          throw new Error("Failed");
+        })
+      ).toThrow("Failed");
+      expect(changes).toEqual([[{ type: "nodeAdded", node: "a" }]]);
+    });
+
+    it("Should emit events for reset and deserialize.", () => {
+      const graph = new Graph().addNode("x");
+      const { events, changes } = record(graph);
+      graph.deserialize(
+        { nodes: [{ id: "a" }], links: [{ source: "a", target: "b" }] },
+        true
+      );
+
+      expect(events).toEqual([
+        { type: "nodeRemoved", node: "x" },
+        { type: "reset" },
+        { type: "nodeAdded", node: "a" },
+        { type: "nodeAdded", node: "b" },
+        { type: "edgeAdded", source: "a", target: "b", weight: 1 },
+      ]);
+      expect(changes).toEqual([events]);
+    });
+
+    it("Should unsubscribe listeners.", () => {
+      const graph = new Graph();
+      const nodes: NodeId[] = [];
+      const listener = (event: { node: NodeId }) => nodes.push(event.node);
+      const unsubscribe = graph.on("nodeAdded", listener);
+      graph.addNode("a");
+      unsubscribe();
+      graph.addNode("b");
+      graph.on("nodeAdded", listener);
+      graph.off("nodeAdded", listener).addNode("c");
+      expect(nodes).toEqual(["a"]);
+    });
+  });
+
+  describe("Transactions and undo", () => {
+    function build() {
+      const graph = new Graph<string, string>();
+      graph.addNode("a", "A");
+      graph.addEdge("a", "b", 2, "ab").addEdge("b", "c");
+      return graph;
+    }
+
+    it("Should roll back transactions.", () => {
+      const graph = build();
+      const before = graph.serialize();
+
+      graph.beginTransaction();
+      expect(graph.inTransaction).toBe(true);
+      graph.addEdge("c", "d", 4);
+      graph.setEdgeWeight("a", "b", 7);
+      graph.setEdgeData("a", "b", "changed");
+      graph.setNodeData("a", "changed");
+      graph.removeEdge("b", "c");
+      graph.removeNode("a");
+      graph.rollback();
+
+      expect(graph.inTransaction).toBe(false);
+      expect(graph.serialize()).toEqual({
+        nodes: [{ id: "b" }, { id: "c" }, { id: "a", data: "A" }],
+        links: [
+          { source: "b", target: "c", weight: 1 },
+          { source: "a", target: "b", weight: 2, data: "ab" },
+        ],
+      });
+      expect(new Graph(graph.serialize()).topologicalSort()).toEqual(
+        new Graph(before).topologicalSort()
+      );
+    });
+
+    it("Should roll back reset and deserialize.", () => {
+      const graph = build();
+      graph.beginTransaction();
+      graph.deserialize({ nodes: [{ id: "x" }], links: [] }, true);
+      expect(graph.nodes).toEqual(["x"]);
+      graph.rollback();
+
+      expect(graph.nodes).toEqual(["a", "b", "c"]);
+      expect(graph.getNodeData("a")).toBe("A");
+      expect(graph.getEdgeWeight("a", "b")).toBe(2);
+      expect(graph.getEdgeData("a", "b")).toBe("ab");
+    });
+
+    it("Should commit transactions.", () => {
+      const graph = build();
+      graph.beginTransaction();
+      graph.addEdge("c", "d");
+      graph.beginTransaction();
+      graph.addEdge("d", "e");
+      graph.rollback();
+      graph.commit();
+
+      expect(graph.hasEdge("c", "d")).toBe(true);
+      expect(graph.hasEdge("d", "e")).toBe(false);
+      expect(() => graph.commit()).toThrow("No transaction in progress");
+      expect(() => graph.rollback()).toThrow("No transaction in progress");
+    });
+
+    it("Should not record history by default.", () => {
+      const graph = build();
+      expect(graph.canUndo).toBe(false);
+      expect(graph.undo()).toBe(false);
+    });
+
+    it("Should undo adding a node with data in one step.", () => {
+      const graph = new Graph<string>();
+      graph.setHistoryLimit(10);
+      const changes: string[][] = [];
+      graph.on("change", (events) =>
+        changes.push(events.map((event) => event.type))
+      );
+
+      graph.addNode("a", "x");
+      expect(changes).toEqual([["nodeAdded", "nodeDataChanged"]]);
+      expect(graph.undo()).toBe(true);
+      expect(graph.nodes).toEqual([]);
+      expect(graph.canUndo).toBe(false);
+      expect(graph.redo()).toBe(true);
+      expect(graph.getNodeData("a")).toBe("x");
+    });
+
+    it("Should undo and redo changes.", () => {
+      const graph = build().setHistoryLimit(10);
+      graph.addEdge("c", "d", 3);
+      graph.setEdgeWeight("a", "b", 5);
+      graph.removeNode("b");
+
+      expect(graph.undo()).toBe(true);
+      expect(graph.hasEdge("a", "b")).toBe(true);
+      expect(graph.getEdgeWeight("a", "b")).toBe(5);
+      expect(graph.undo()).toBe(true);
+      expect(graph.getEdgeWeight("a", "b")).toBe(2);
+      // Restored nodes are added at the end.
+      expect(graph.nodes).toEqual(["a", "c", "d", "b"]);
+      expect(graph.undo()).toBe(true);
+      expect(graph.nodes).toEqual(["a", "c", "b"]);
+      expect(graph.hasEdge("c", "d")).toBe(false);
+      expect(graph.undo()).toBe(false);
+
+      expect(graph.redo()).toBe(true);
+      expect(graph.getEdgeWeight("c", "d")).toBe(3);
+      expect(graph.redo()).toBe(true);
+      expect(graph.redo()).toBe(true);
+      expect(graph.nodes).toEqual(["a", "c", "d"]);
+      expect(graph.redo()).toBe(false);
+    });
+
+    it("Should undo batches and transactions as one step.", () => {
+      const graph = new Graph().setHistoryLimit(10);
+      graph.batch(() => {
+        graph.addEdge("a", "b");
+        graph.addEdge("b", "c");
+      });
+      graph.beginTransaction();
+      graph.addEdge("c", "d");
+      graph.addEdge("d", "e");
+      graph.commit();
+
+      graph.undo();
+      expect(graph.nodes).toEqual(["a", "b", "c"]);
+      graph.undo();
+      expect(graph.nodes).toEqual([]);
+      expect(graph.canUndo).toBe(false);
+      expect(graph.canRedo).toBe(true);
+    });
+
+    it("Should bound the undo history.", () => {
+      const graph = new Graph().setHistoryLimit(2);
+      graph.addNode("a").addNode("b").addNode("c");
+      expect(graph.undo()).toBe(true);
+      expect(graph.undo()).toBe(true);
+      expect(graph.undo()).toBe(false);
+      expect(graph.nodes).toEqual(["a"]);
+    });
+
+    it("Should discard redo steps after new changes.", () => {
+      const graph = new Graph().setHistoryLimit(10);
+      graph.addNode("a").addNode("b");
+      graph.undo();
+      graph.addNode("c");
+      expect(graph.canRedo).toBe(false);
+      expect(graph.redo()).toBe(false);
+    });
+
+    it("Should not undo during transactions.", () => {
+      const graph = new Graph().setHistoryLimit(10);
+      graph.beginTransaction();
+      expect(() => graph.undo()).toThrow(
+        "Cannot undo or redo during a transaction"
+      );
+    });
+
+    it("Should undo changes of undirected graphs.", () => {
+      const graph = new UndirectedGraph().setHistoryLimit(10);
+      graph.addEdge("a", "b", 2);
+      graph.removeEdge("b", "a");
+      graph.undo();
+      expect(graph.getEdgeWeight("b", "a")).toBe(2);
+      expect(graph.adjacent("b")).toEqual(["a"]);
+      graph.reset();
+      graph.undo();
+      expect(graph.adjacent("a")).toEqual(["b"]);
+      expect(graph.adjacent("b")).toEqual(["a"]);
+    });
+
+    it("Should undo changes of multigraphs with edge ids.", () => {
+      const graph = new MultiGraph<string, string>().setHistoryLimit(10);
+      const first = graph.createEdge("a", "b", 2, "x");
+      const second = graph.createEdge("a", "b", 3);
+      graph.removeEdge("a", "b");
+      graph.undo();
+      expect(graph.edgesBetween("a", "b")).toEqual([
+        { id: first, source: "a", target: "b", weight: 2, data: "x" },
+        { id: second, source: "a", target: "b", weight: 3 },
+      ]);
+
+      graph.undo();
+      graph.undo();
+      expect(graph.edgeList()).toEqual([]);
+      graph.redo();
+      expect(graph.getEdge(first)).toEqual({
+        id: first,
+        source: "a",
+        target: "b",
+        weight: 2,
+        data: "x",
+      });
+    });
+
+    it("Should notify listeners about reverted changes.", () => {
+      const graph = new Graph().setHistoryLimit(10);
+      graph.addEdge("a", "b");
+      const changes: GraphEvent[][] = [];
+      graph.on("change", (batch) => changes.push(batch));
+      graph.undo();
+      expect(changes.length).toBe(1);
+      expect(changes[0].map((event) => event.type)).toEqual([
+        "edgeRemoved",
+        "nodeRemoved",
+        "nodeRemoved",
+      ]);
+    });
+  });
+
   describe("hadEdge", () => {
     it("Should compute hasEdge.", () => {
       const graph = new Graph();
@@ -0,0 +1,236 @@
+import { Graph, MultiGraph, UndirectedGraph } from "../Graph";
+import { GraphMLError, parseGraphML, toGraphML } from "../GraphML";
+
+describe("GraphML", () => {
+  it("Should write directed graphs.", () => {
+    const graph = new Graph<{ label: string }, { kind: string }>();
+    graph.addNode("a", { label: "A & B" });
+    graph.addEdge("a", "b", 2.5, { kind: "x" });
+
+    expect(toGraphML(graph)).toBe(
+      [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<graphml xmlns="http://graphml.graphdrawing.org/xmlns"' +
+          ' xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"' +
+          ' xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns' +
+          ' http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+        '  <key id="n0" for="node" attr.name="label" attr.type="string"/>',
+        '  <key id="weight" for="edge" attr.name="weight" attr.type="double"/>',
+        '  <key id="e0" for="edge" attr.name="kind" attr.type="string"/>',
+        '  <graph id="G" edgedefault="directed">',
+        '    <node id="a">',
+        '      <data key="n0">A &amp; B</data>',
+        "    </node>",
+        '    <node id="b"/>',
+        '    <edge source="a" target="b">',
+        '      <data key="weight">2.5</data>',
+        '      <data key="e0">x</data>',
+        "    </edge>",
+        "  </graph>",
+        "</graphml>",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("Should round-trip graphs with their data.", () => {
+    const graph = new Graph<Record<string, string | number | boolean>>();
+    graph.addNode("a", { label: "<A>", size: 3, visible: true });
+    graph.addNode("b");
+    graph.addEdge("a", "b", 4).addEdge("b", "c").addEdge("c", "a", -1);
+    graph.setEdgeData("b", "c", { color: "red" });
+
+    const parsed = parseGraphML(toGraphML(graph));
+    expect(parsed).not.toBeInstanceOf(UndirectedGraph);
+    expect(parsed.serialize()).toEqual(graph.serialize());
+  });
+
+  it("Should round-trip undirected graphs.", () => {
+    const graph = new UndirectedGraph();
+    graph.addEdge("a", "b", 2).addEdge("b", "c").addEdge("c", "c", 3);
+
+    const text = toGraphML(graph);
+    expect(text).toContain('edgedefault="undirected"');
+    expect(text.match(/<edge /g)?.length).toBe(3);
+
+    const parsed = parseGraphML(text);
+    expect(parsed).toBeInstanceOf(UndirectedGraph);
+    expect(parsed.serialize()).toEqual(graph.serialize());
+  });
+
+  it("Should write parallel edges of multigraphs with their ids.", () => {
+    const graph = new MultiGraph();
+    graph.addEdge("a", "b", 1);
+    graph.addEdge("a", "b", 2);
+
+    const text = toGraphML(graph);
+    expect(text).toContain('<edge id="0" source="a" target="b">');
+    expect(text).toContain('<edge id="1" source="a" target="b">');
+
+    const parsed = parseGraphML(text, {
+      graph: new MultiGraph(),
+      edgeId: Number,
+    }) as MultiGraph;
+    expect(parsed.serialize()).toEqual(graph.serialize());
+    expect(parsed.getEdgeWeightById(1)).toBe(2);
+  });
+
+  it("Should give reverse edges ids that explicit ids do not use.", () => {
+    const graph = parseGraphML(
+      '<graphml><graph edgedefault="directed">' +
+        '<edge id="0" source="a" target="b" directed="false"/>' +
+        '<edge id="1" source="a" target="c"/>' +
+        "</graph></graphml>",
+      { graph: new MultiGraph(), edgeId: Number }
+    ) as MultiGraph;
+    expect(graph.getEdge(1)).toEqual({ id: 1, source: "a", target: "c" });
+    expect(graph.edgesBetween("b", "a")).toEqual([
+      { id: 2, source: "b", target: "a" },
+    ]);
+
+    expect(() =>
+      parseGraphML(
+        '<graphml><graph edgedefault="directed">' +
+          '<edge id="e" source="a" target="b"/>' +
+          '<edge id="e" source="b" target="c"/>' +
+          "</graph></graphml>",
+        { graph: new MultiGraph() }
+      )
+    ).toThrow(GraphMLError);
+  });
+
+  it("Should reject parallel edges unless reading into a multigraph.", () => {
+    const graph = new MultiGraph();
+    graph.addEdge("a", "b", 1);
+    graph.addEdge("a", "b", 2);
+
+    expect(() => parseGraphML(toGraphML(graph))).toThrow(
+      "Parallel edges from a to b need a MultiGraph"
+    );
+    expect(() =>
+      parseGraphML(
+        '<graphml><graph edgedefault="undirected">' +
+          '<edge source="a" target="b"/><edge source="b" target="a"/>' +
+          "</graph></graphml>"
+      )
+    ).toThrow("Parallel edges from b to a need a MultiGraph");
+    expect(() =>
+      parseGraphML(toGraphML(new Graph().addEdge("a", "b")), {
+        graph: new Graph().addEdge("a", "b"),
+      })
+    ).toThrow("Parallel edges from a to b need a MultiGraph");
+  });
+
+  it("Should read into the given graph.", () => {
+    const text = toGraphML(new UndirectedGraph().addEdge("a", "b"));
+    const graph = new UndirectedGraph();
+    expect(parseGraphML(text, { graph })).toBe(graph);
+    expect(graph.hasEdge("b", "a")).toBe(true);
+
+    expect(() => parseGraphML(text, { graph: new Graph() })).toThrow(
+      'Cannot read edgedefault="undirected" into a directed graph'
+    );
+    expect(() =>
+      parseGraphML(toGraphML(new Graph()), { graph: new UndirectedGraph() })
+    ).toThrow('Cannot read edgedefault="directed" into an UndirectedGraph');
+  });
+
+  it("Should use custom data conversions.", () => {
+    const graph = new Graph<string[], number>();
+    graph.addNode(1, ["x", "y"]);
+    graph.addEdge(1, 2, 1, 7);
+
+    const text = toGraphML(graph, {
+      nodeAttributes: (data) => ({ tags: data.join(",") }),
+      edgeAttributes: (data) => ({ count: data }),
+    });
+    const parsed = parseGraphML<string[], number>(text, {
+      nodeId: Number,
+      nodeData: (attributes) => String(attributes.tags).split(","),
+      edgeData: (attributes) => attributes.count as number,
+    });
+    expect(parsed.serialize()).toEqual(graph.serialize());
+  });
+
+  it("Should store primitive data payloads in a data attribute.", () => {
+    const graph = new Graph<number, boolean>();
+    graph.addNode("a", 5);
+    graph.addEdge("a", "b", 1, true);
+
+    const parsed = parseGraphML(toGraphML(graph));
+    expect(parsed.getNodeData("a")).toEqual({ data: 5 });
+    expect(parsed.getEdgeData("a", "b")).toEqual({ data: true });
+  });
+
+  it("Should read documents written by other tools.", () => {
+    const text = `<?xml version="1.0" encoding="UTF-8" standalone="no"?>
+<!-- Written by yEd -->
+<graphml xmlns="http://graphml.graphdrawing.org/xmlns"
+    xmlns:y="http://www.yworks.com/xml/graphml">
+  <key for="node" id="d0" yfiles.type="nodegraphics"/>
+  <key attr.name="color" attr.type="string" for="node" id="d1">
+    <default>yellow</default>
+  </key>
+  <key attr.name="weight" attr.type="double" for="edge" id="d2"/>
+  <key attr.name="count" attr.type="int" for="all" id="d3"/>
+  <graph id="G" edgedefault="directed">
+    <node id="n0">
+      <data key="d0"><y:ShapeNode><y:NodeLabel>A</y:NodeLabel></y:ShapeNode></data>
+      <data key="d1"><![CDATA[bl<ue]]></data>
+    </node>
+    <node id="n1"/>
+    <edge id="e0" source="n0" target="n1">
+      <data key="d2"> 1.5 </data>
+      <data key="d3">2</data>
+    </edge>
+    <edge source="n1" target="n2" directed='false'/>
+    <edge source="n2" target="n2" directed="false"/>
+    <hyperedge><endpoint node="n0"/></hyperedge>
+  </graph>
+</graphml>`;
+
+    const graph = parseGraphML(text);
+    expect(graph.nodes).toEqual(["n0", "n1", "n2"]);
+    expect(graph.getNodeData("n0")).toEqual({ color: "bl<ue" });
+    expect(graph.getNodeData("n1")).toEqual({ color: "yellow" });
+    expect(graph.getEdgeWeight("n0", "n1")).toBe(1.5);
+    expect(graph.getEdgeData("n0", "n1")).toEqual({ count: 2 });
+    expect(graph.hasEdge("n1", "n2")).toBe(true);
+    expect(graph.hasEdge("n2", "n1")).toBe(true);
+    expect(graph.hasEdge("n2", "n2")).toBe(true);
+  });
+
+  it("Should decode entities.", () => {
+    const graph = parseGraphML(
+      '<graphml><graph edgedefault="directed">' +
+        '<node id="&quot;a&#39;&#x41;"/></graph></graphml>'
+    );
+    expect(graph.nodes).toEqual(["\"a'A"]);
+    const outOfRange = '<node id="&#xFFFFFFF;"/>';
+    expect(() =>
+      parseGraphML(`<graphml><graph>${outOfRange}</graph></graphml>`)
+    ).toThrow("Invalid character reference: &#xFFFFFFF;");
+  });
+
+  it("Should throw on malformed documents.", () => {
+    expect(() => parseGraphML("<graphml><graph></graphml>")).toThrow(
+      GraphMLError
+    );
+    expect(() => parseGraphML("<graphml>")).toThrow("Unclosed element");
+    expect(() => parseGraphML("<graph/>")).toThrow("Expected a graphml");
+    expect(() => parseGraphML("<graphml/>")).toThrow("No graph element");
+    expect(() =>
+      parseGraphML("<graphml><graph><node/></graph></graphml>")
+    ).toThrow("Missing id attribute on node element");
+    expect(() =>
+      parseGraphML(
+        '<graphml><key id="w" for="edge" attr.name="weight" attr.type="string"/>' +
+          '<graph><edge source="a" target="b"><data key="w">heavy</data>' +
+          "</edge></graph></graphml>"
+      )
+    ).toThrow("Invalid edge weight: heavy");
+    expect(() =>
+      parseGraphML("<graphml><graph><!-- </graph></graphml>")
+    ).toThrow("Unterminated markup");
+  });
+});
@@ -0,0 +1,48 @@
+import { History } from "../History";
+
+describe("History", () => {
+  it("Should undo and redo entries.", () => {
+    const history = new History<string>();
+    expect(history.canUndo).toBe(false);
+    expect(history.undo()).toBeUndefined();
+
+    history.push("a").push("b");
+    expect(history.undo()).toBe("b");
+    expect(history.canRedo).toBe(true);
+    expect(history.undo()).toBe("a");
+    expect(history.undo()).toBeUndefined();
+    expect(history.redo()).toBe("a");
+    expect(history.redo()).toBe("b");
+    expect(history.redo()).toBeUndefined();
+  });
+
+  it("Should discard redo entries on push.", () => {
+    const history = new History<string>();
+    history.push("a").push("b");
+    history.undo();
+    history.push("c");
+    expect(history.canRedo).toBe(false);
+    expect(history.undo()).toBe("c");
+    expect(history.undo()).toBe("a");
+  });
+
+  it("Should drop the oldest entries beyond the limit.", () => {
+    const history = new History<number>(2);
+    history.push(1).push(2).push(3);
+    expect(history.undo()).toBe(3);
+    expect(history.undo()).toBe(2);
+    expect(history.undo()).toBeUndefined();
+
+    history.clear();
+    history.push(1).push(2);
+    history.limit = 1;
+    expect(history.undo()).toBe(2);
+    expect(history.canUndo).toBe(false);
+  });
+
+  it("Should not record entries with a limit of 0.", () => {
+    const history = new History<number>(0);
+    history.push(1);
+    expect(history.canUndo).toBe(false);
+  });
+});
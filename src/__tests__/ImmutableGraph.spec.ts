@@ -0,0 +1,131 @@
+import { Graph, UndirectedGraph } from "../Graph";
+import { ImmutableGraph } from "../ImmutableGraph";
+
+describe("ImmutableGraph", () => {
+  it("Should return new graphs from mutating methods.", () => {
+    const empty = new ImmutableGraph<string, string>();
+    const one = empty.addNode("a", "A");
+    const two = one.addEdge("a", "b", 3, "ab");
+
+    expect(empty.nodes).toEqual([]);
+    expect(one.nodes).toEqual(["a"]);
+    expect(one.hasEdge("a", "b")).toBe(false);
+    expect(two.nodes).toEqual(["a", "b"]);
+    expect(two.adjacent("a")).toEqual(["b"]);
+    expect(two.inbound("b")).toEqual(["a"]);
+    expect(two.getEdgeWeight("a", "b")).toBe(3);
+    expect(two.getEdgeData("a", "b")).toBe("ab");
+    expect(two.getNodeData("a")).toBe("A");
+
+    const removed = two.removeNode("a");
+    expect(removed.nodes).toEqual(["b"]);
+    expect(removed.inbound("b")).toEqual([]);
+    expect(two.hasEdge("a", "b")).toBe(true);
+  });
+
+  it("Should return the same graph if nothing changes.", () => {
+    const graph = new ImmutableGraph().addEdge("a", "b", 2);
+    expect(graph.addNode("a")).toBe(graph);
+    expect(graph.addEdge("a", "b")).toBe(graph);
+    expect(graph.addEdge("a", "b", 2)).toBe(graph);
+    expect(graph.removeEdge("b", "a")).toBe(graph);
+    expect(graph.removeNode("c")).toBe(graph);
+    expect(graph.setEdgeWeight("b", "a", 5)).toBe(graph);
+    expect(graph.setNodeData("c", "C")).toBe(graph);
+  });
+
+  it("Should return copies from read accessors.", () => {
+    const graph = new ImmutableGraph().addEdge("a", "b");
+    graph.adjacent("a").push("c");
+    graph.edges.get("a")?.push("c");
+    graph.inbound("b").push("c");
+    expect(graph.adjacent("a")).toEqual(["b"]);
+    expect(graph.edges).toEqual(
+      new Map([
+        ["a", ["b"]],
+        ["b", []],
+      ])
+    );
+    expect(graph.inbound("b")).toEqual(["a"]);
+  });
+
+  it("Should update edge weights and data.", () => {
+    const before = new ImmutableGraph<string, string>().addEdge("a", "b");
+    const after = before
+      .setEdgeWeight("a", "b", 4)
+      .setEdgeData("a", "b", "ab")
+      .setNodeData("a", "A");
+
+    expect(before.getEdgeWeight("a", "b")).toBe(1);
+    expect(before.getEdgeData("a", "b")).toBeUndefined();
+    expect(after.getEdgeWeight("a", "b")).toBe(4);
+    expect(after.getEdgeData("a", "b")).toBe("ab");
+    expect(after.getNodeData("a")).toBe("A");
+
+    const removed = after.removeEdge("a", "b").addEdge("a", "b");
+    expect(removed.getEdgeWeight("a", "b")).toBe(1);
+  });
+
+  it("Should keep numeric and string ids apart.", () => {
+    const graph = new ImmutableGraph().addEdge(1, 2).addEdge("1", "2", 5);
+    expect(graph.nodes).toEqual([1, 2, "1", "2"]);
+    expect(graph.getEdgeWeight(1, 2)).toBe(1);
+    expect(graph.getEdgeWeight("1", "2")).toBe(5);
+    expect(graph.hasEdge(1, "2")).toBe(false);
+  });
+
+  it("Should convert from and to graphs.", () => {
+    const graph = new Graph<string, string>();
+    graph.addNode("a", "A");
+    graph.addEdge("a", "b", 2, "ab").addEdge("b", "c").addEdge("c", "a");
+
+    const immutable = ImmutableGraph.fromGraph(graph);
+    expect(immutable.undirected).toBe(false);
+    expect(immutable.serialize()).toEqual(graph.serialize());
+
+    graph.removeNode("a");
+    expect(immutable.nodes).toEqual(["a", "b", "c"]);
+
+    const copy = immutable.addEdge("c", "d").toGraph();
+    expect(copy).toBeInstanceOf(Graph);
+    expect(copy.nodes).toEqual(["a", "b", "c", "d"]);
+    expect(copy.inbound("a")).toEqual(["c"]);
+    expect(copy.getEdgeData("a", "b")).toBe("ab");
+    expect(copy.topologicalGenerations).toBeDefined();
+  });
+
+  it("Should keep undirected graphs undirected.", () => {
+    const graph = new UndirectedGraph();
+    graph.addEdge("a", "b", 2);
+
+    const immutable = ImmutableGraph.fromGraph(graph);
+    expect(immutable.undirected).toBe(true);
+
+    const changed = immutable.addEdge("b", "c", 3).setEdgeWeight("b", "a", 4);
+    expect(changed.getEdgeWeight("a", "b")).toBe(4);
+    expect(changed.adjacent("c")).toEqual(["b"]);
+    expect(changed.removeEdge("c", "b").adjacent("b")).toEqual(["a"]);
+
+    const copy = changed.toGraph();
+    expect(copy).toBeInstanceOf(UndirectedGraph);
+    expect(copy.serialize()).toEqual(
+      new UndirectedGraph(changed.serialize()).serialize()
+    );
+  });
+
+  it("Should share unchanged nodes between versions.", () => {
+    let graph = new ImmutableGraph<number>();
+    for (let i = 0; i < 2000; i++) {
+      graph = graph.addEdge(i, i + 1);
+    }
+    const versions = [graph];
+    for (let i = 0; i < 100; i++) {
+      versions.push(versions[i].removeEdge(i, i + 1));
+    }
+
+    expect(versions[0].hasEdge(50, 51)).toBe(true);
+    expect(versions[100].hasEdge(50, 51)).toBe(false);
+    expect(versions[100].hasEdge(150, 151)).toBe(true);
+    expect(versions[100].nodes.length).toBe(2001);
+  });
+});
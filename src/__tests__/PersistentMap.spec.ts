@@ -0,0 +1,79 @@
+import { PersistentMap } from "../PersistentMap";
+
+describe("PersistentMap", () => {
+  it("Should set and get values without changing the old map.", () => {
+    const empty = new PersistentMap<string, number>();
+    const one = empty.set("a", 1);
+    const two = one.set("b", 2);
+
+    expect(empty.size).toBe(0);
+    expect(empty.has("a")).toBe(false);
+    expect(one.size).toBe(1);
+    expect(one.get("a")).toBe(1);
+    expect(one.has("b")).toBe(false);
+    expect(two.size).toBe(2);
+    expect(two.get("b")).toBe(2);
+
+    const changed = two.set("a", 3);
+    expect(changed.get("a")).toBe(3);
+    expect(changed.size).toBe(2);
+    expect(two.get("a")).toBe(1);
+  });
+
+  it("Should return the same map for no-op updates.", () => {
+    const map = new PersistentMap<string, number>([["a", 1]]);
+    expect(map.set("a", 1)).toBe(map);
+    expect(map.delete("b")).toBe(map);
+  });
+
+  it("Should keep numeric and string keys apart.", () => {
+    const map = new PersistentMap<string | number, string>()
+      .set(1, "number")
+      .set("1", "string");
+    expect(map.size).toBe(2);
+    expect(map.get(1)).toBe("number");
+    expect(map.get("1")).toBe("string");
+
+    const deleted = map.delete(1);
+    expect(deleted.has(1)).toBe(false);
+    expect(deleted.get("1")).toBe("string");
+  });
+
+  it("Should handle many keys.", () => {
+    let map = new PersistentMap<number, number>();
+    for (let i = 0; i < 5000; i++) {
+      map = map.set(i, i * 2);
+    }
+    const full = map;
+    for (let i = 0; i < 5000; i += 2) {
+      map = map.delete(i);
+    }
+
+    expect(full.size).toBe(5000);
+    expect(map.size).toBe(2500);
+    for (let i = 0; i < 5000; i++) {
+      expect(full.get(i)).toBe(i * 2);
+      expect(map.has(i)).toBe(i % 2 === 1);
+    }
+    expect([...map.keys()].sort((a, b) => a - b)).toEqual(
+      Array.from({ length: 2500 }, (_, i) => 2 * i + 1)
+    );
+    expect([...map.values()].length).toBe(2500);
+  });
+
+  it("Should iterate over all entries.", () => {
+    const map = new PersistentMap([
+      ["a", 1],
+      ["b", 2],
+      ["c", 3],
+    ]);
+    expect(new Map(map)).toEqual(
+      new Map([
+        ["a", 1],
+        ["b", 2],
+        ["c", 3],
+      ])
+    );
+    expect([...new PersistentMap().entries()]).toEqual([]);
+  });
+});
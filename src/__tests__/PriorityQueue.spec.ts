@@ -0,0 +1,59 @@
+import { PriorityQueue } from "../PriorityQueue";
+
+describe("PriorityQueue", () => {
+  it("Should pop items in order of priority.", () => {
+    const queue = new PriorityQueue<string>();
+    queue.push("c", 3).push("a", 1).push("d", 4).push("b", 2);
+
+    expect(queue.size).toBe(4);
+    expect(queue.peek()).toBe("a");
+    expect(queue.peekPriority()).toBe(1);
+    expect([queue.pop(), queue.pop(), queue.pop(), queue.pop()]).toEqual([
+      "a",
+      "b",
+      "c",
+      "d",
+    ]);
+    expect(queue.isEmpty()).toBe(true);
+  });
+
+  it("Should pop items with equal priority in insertion order.", () => {
+    const queue = new PriorityQueue<number>();
+    [5, 3, 9, 1, 7].forEach((item) => queue.push(item, 0));
+
+    const popped: (number | undefined)[] = [];
+    while (!queue.isEmpty()) {
+      popped.push(queue.pop());
+    }
+    expect(popped).toEqual([5, 3, 9, 1, 7]);
+  });
+
+  it("Should return undefined when empty.", () => {
+    const queue = new PriorityQueue<string>();
+    expect(queue.pop()).toBeUndefined();
+    expect(queue.peek()).toBeUndefined();
+    expect(queue.peekPriority()).toBe(Infinity);
+  });
+
+  it("Should sort many random priorities.", () => {
+    const queue = new PriorityQueue<number>();
+    const priorities = Array.from(
+      { length: 1000 },
+      (_, i) => (i * 7919) % 1009
+    );
+    priorities.forEach((priority) => queue.push(priority, priority));
+
+    const popped: number[] = [];
+    while (!queue.isEmpty()) {
+      popped.push(queue.pop() as number);
+    }
+    expect(popped).toEqual([...priorities].sort((a, b) => a - b));
+  });
+
+  it("Should clear all items.", () => {
+    const queue = new PriorityQueue<string>();
+    queue.push("a", 1).push("b", 2);
+    queue.clear();
+    expect(queue.size).toBe(0);
+  });
+});
@@ -0,0 +1,51 @@
+import { UnionFind } from "../UnionFind";
+
+describe("UnionFind", () => {
+  it("Should start with singleton sets.", () => {
+    const sets = new UnionFind(["a", "b", "c"]);
+    expect(sets.count).toBe(3);
+    expect(sets.connected("a", "b")).toBe(false);
+    expect(sets.find("a")).toBe("a");
+    expect(sets.sets()).toEqual([["a"], ["b"], ["c"]]);
+  });
+
+  it("Should merge sets.", () => {
+    const sets = new UnionFind(["a", "b", "c", "d"]);
+    expect(sets.union("a", "b")).toBe(true);
+    expect(sets.union("c", "d")).toBe(true);
+    expect(sets.union("b", "a")).toBe(false);
+    expect(sets.count).toBe(2);
+    expect(sets.connected("a", "b")).toBe(true);
+    expect(sets.connected("a", "c")).toBe(false);
+
+    expect(sets.union("d", "a")).toBe(true);
+    expect(sets.count).toBe(1);
+    expect(sets.connected("b", "c")).toBe(true);
+    expect(sets.sets()).toEqual([["a", "b", "c", "d"]]);
+  });
+
+  it("Should add elements implicitly.", () => {
+    const sets = new UnionFind<number>();
+    expect(sets.has(1)).toBe(false);
+    sets.union(1, 2);
+    expect(sets.has(1)).toBe(true);
+    expect(sets.count).toBe(1);
+    sets.add(3).add(3);
+    expect(sets.count).toBe(2);
+    expect(sets.sets()).toEqual([[1, 2], [3]]);
+  });
+
+  it("Should keep numeric and string elements apart.", () => {
+    const sets = new UnionFind<string | number>([1, "1"]);
+    expect(sets.connected(1, "1")).toBe(false);
+  });
+
+  it("Should handle long chains.", () => {
+    const sets = new UnionFind<number>();
+    for (let i = 1; i < 100000; i++) {
+      sets.union(i - 1, i);
+    }
+    expect(sets.count).toBe(1);
+    expect(sets.connected(0, 99999)).toBe(true);
+  });
+});
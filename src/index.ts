@@ -0,0 +1,13 @@
+export * from "./AdjacencyMatrix";
+export * from "./Dot";
+export * from "./DotParser";
+export * from "./EdgeList";
+export * from "./EdgeMap";
+export * from "./EventEmitter";
+export * from "./Graph";
+export * from "./GraphML";
+export * from "./History";
+export * from "./ImmutableGraph";
+export * from "./PersistentMap";
+export * from "./PriorityQueue";
+export * from "./UnionFind";